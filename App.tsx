@@ -1,12 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { fetchMarketData, fetchVolatilityData } from './services/geminiService.ts';
-import { fetchPolygonData, validateApiKey } from './services/polygonService.ts';
-import { OptionRow, FetchStatus, VolatilityMetrics } from './types.ts';
-import { calculateOptionMetrics, formatCurrency, getNextFriday } from './utils/calculations.ts';
+import { subscribePolygonQueue } from './services/polygonService.ts';
+import { scanYieldSurface } from './services/surfaceScan.ts';
+import { loadExpirations, snapToExpiration } from './services/expirationService.ts';
+import { REPLAY_API_KEY } from './services/recorder.ts';
+import { applyIvHistory, atmTenorBucket } from './services/ivHistory.ts';
+import { describeError } from './services/errors.ts';
+import { OptionRow, FetchStatus, ChainFilter, FillAssumption, YieldSurface, ExpirationList } from './types.ts';
+import { calculateOptionMetrics, formatCurrency, getNextFriday, applyChainFilter, DEFAULT_CHAIN_FILTER, repriceRow, DEFAULT_FILL_ASSUMPTION, attachGreeks, attachProbabilities, getDaysToExpiration, formatDte, calculateDynamicTargets, getAtmIv, atmStrikeDistance, SIGMA_SOURCE_LABELS } from './utils/calculations.ts';
+import { parseLocalDate, formatEasternTime } from './utils/marketCalendar.ts';
+import { getStaleness, REFRESH_INTERVAL_OPTIONS, INTRADAY_REFRESH_INTERVAL } from './utils/refreshSchedule.ts';
+import { now } from './utils/clock.ts';
+import { TICKER_PRESETS, DEFAULT_TICKER, getTickerInfo, normalizeSymbol } from './utils/tickers.ts';
 import { OptionTable } from './components/OptionTable.tsx';
 import { YieldChart } from './components/YieldChart.tsx';
+import { YieldHeatmap } from './components/YieldHeatmap.tsx';
+import { CrossVerifyPanel } from './components/CrossVerifyPanel.tsx';
+import { IntradayPanel } from './components/IntradayPanel.tsx';
 import { VolatilityCard } from './components/VolatilityCard.tsx';
+import { VolatilityStructurePanel } from './components/VolatilityStructurePanel.tsx';
 import { StrategyGuide } from './components/StrategyGuide.tsx';
+import { SettingsPanel } from './components/SettingsPanel.tsx';
+import { useSettings } from './hooks/useSettings.ts';
+import { useReplay } from './hooks/useReplay.ts';
+import { useQuoteStream } from './hooks/useQuoteStream.ts';
+import { useAutoRefresh } from './hooks/useAutoRefresh.ts';
+import { useIntradayMode } from './hooks/useIntradayMode.ts';
+import { useCrossVerify } from './hooks/useCrossVerify.ts';
+import { useIvHistory } from './hooks/useIvHistory.ts';
+import { useVolStructure } from './hooks/useVolStructure.ts';
+import { useExpectedMove } from './hooks/useExpectedMove.ts';
+import { useChainFetch } from './hooks/useChainFetch.ts';
 import { 
   CircleNotch, 
   Plus, 
@@ -18,7 +41,6 @@ import {
   Gear, 
   X, 
   Key, 
-  CheckCircle, 
   WarningCircle, 
   CaretDown, 
   CaretUp, 
@@ -29,11 +51,11 @@ import {
   Bug, 
   Code,
   Sparkle,
-  TrendUp
+  TrendUp,
+  Record,
+  ClockCounterClockwise
 } from '@phosphor-icons/react';
 
-const QQQ_DEFAULT_PRICE = 500; // Fallback
-
 // --- SKELETON COMPONENTS ---
 const ChartSkeleton = () => (
   <div className="h-[400px] w-full bg-slate-900/50 p-4 rounded-xl border border-slate-800 animate-pulse flex flex-col">
@@ -73,178 +95,253 @@ const TableSkeleton = () => (
 );
 
 export default function App() {
-  const [status, setStatus] = useState<FetchStatus>(FetchStatus.IDLE);
-  const [scanMessage, setScanMessage] = useState<string>("初始化...");
   const [targetDate, setTargetDate] = useState<string>(getNextFriday());
-  const [currentPrice, setCurrentPrice] = useState<number>(0);
-  const [options, setOptions] = useState<OptionRow[]>([]);
-  const [sources, setSources] = useState<Array<{uri: string, title: string}>>([]);
-  const [errorMsg, setErrorMsg] = useState<string>("");
-  
-  // Volatility State
-  const [volMetrics, setVolMetrics] = useState<VolatilityMetrics | null>(null);
-  const [isVolLoading, setIsVolLoading] = useState(false);
-
-  // Settings & API Keys
-  const [showSettings, setShowSettings] = useState<boolean>(false);
-  const [polygonKey, setPolygonKey] = useState<string>("");
-  const [geminiKey, setGeminiKey] = useState<string>("");
+  const [tickerSymbol, setTickerSymbol] = useState<string>(DEFAULT_TICKER.symbol);
+  const [expirations, setExpirations] = useState<ExpirationList | null>(null);
+  const [isLoadingExpirations, setIsLoadingExpirations] = useState(false);
   
   // Strategy State
   const [strategy, setStrategy] = useState<'CSP' | 'PCS' | 'CC'>('CSP');
   const [stockCostBasis, setStockCostBasis] = useState<string>("");
   const [spreadWidth, setSpreadWidth] = useState<number>(5); // Default $5 width for Spread
+  const [chainFilter, setChainFilter] = useState<ChainFilter>(DEFAULT_CHAIN_FILTER);
+  const [fillAssumption, setFillAssumption] = useState<FillAssumption>(DEFAULT_FILL_ASSUMPTION);
+
+  // Multi-expiration Scan State
+  const [surface, setSurface] = useState<YieldSurface | null>(null);
+  const [surfaceRange, setSurfaceRange] = useState<{minDte: number, maxDte: number}>({ minDte: 7, maxDte: 60 });
+  const [isScanningSurface, setIsScanningSurface] = useState(false);
   
   // Guide & Debug State
   const [showGuide, setShowGuide] = useState<boolean>(true);
   const [showDebug, setShowDebug] = useState<boolean>(false);
 
-  // Verification State
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [verificationStatus, setVerificationStatus] = useState<{valid: boolean, msg?: string} | null>(null);
-
   // Manual Entry State
   const [manualStrike, setManualStrike] = useState<string>("");
   const [manualPremium, setManualPremium] = useState<string>("");
 
-  // Load Keys on Mount
+  const ticker = getTickerInfo(tickerSymbol);
+  const contractType = strategy === 'CC' ? 'call' : 'put';
+
+  const replay = useReplay({
+    onError: (msg) => setErrorMsg(msg),
+    onSelectTicker: (symbol) => handleChangeTicker(symbol),
+  });
+  const { recordMode, replaySelection, replaySession } = replay;
+
+  const settings = useSettings(!!replaySelection);
+  const { showSettings, setShowSettings, polygonKey, geminiKey, committedPolygonKey, polygonEntitlements, chainConfig, riskFreeRate, sigmaPreference } = settings;
+
+  const { straddleMove, resetMove, loadMove } = useExpectedMove();
+
+  const { verifyMode, verification, isCrossVerifying, resetVerification, handleToggleVerifyMode, runCrossVerify } = useCrossVerify({
+    onProgress: (msg) => setScanMessage(msg),
+    onSources: (added) => setSources(prev => Array.from(new Map([...prev, ...added].map(s => [s.uri, s])).values())),
+    onWarning: (warning) => setDataWarnings(prev => [...prev, warning]),
+  });
+
+  const { volStructure, isLoadingStructure, structureMessage, resetStructure, loadStructure } = useVolStructure((err) => {
+    const info = describeError(err);
+    setErrorMsg(`${info.title}: ${err.message || "波动率结构加载失败"}`);
+    setErrorGuidance(info);
+    if (info.openSettings) setShowSettings(true);
+  });
+
+  const {
+    status, scanMessage, setScanMessage, currentPrice, setCurrentPrice, options, setOptions, sources, setSources,
+    errorMsg, setErrorMsg, errorGuidance, setErrorGuidance, dataWarnings, setDataWarnings, targetSigma,
+    volMetrics, realizedVol, setRealizedVol, isVolLoading, cacheReport, isRevalidating, marketStatus, setMarketStatus,
+    sourceRealtime, buildProviders, fetchData, forceRefresh, scheduledRefresh,
+  } = useChainFetch({
+    ticker,
+    expiration: targetDate,
+    contractType,
+    settings,
+    replaySession,
+    recordMode,
+    costBasis: parseFloat(stockCostBasis) || 0,
+    fill: fillAssumption,
+    recordAtmIv: (symbol, tenor, iv) => recordAtmIv(symbol, tenor, iv),
+    recordVxn: (iv) => recordVxn(iv),
+    seedVxn: (key) => seedVxn(key),
+    loadMove,
+    runCrossVerify,
+    onReset: () => {
+        resetVerification();
+        resetStructure();
+        resetMove();
+    },
+    // Auto-hide guide when data loads successfully to save space
+    onLoaded: () => setShowGuide(false),
+    onRecorded: replay.handleSaveRecording,
+  });
+
+  // IV history of the loaded expiration's tenor bucket
+  const ivTenor = atmTenorBucket(getDaysToExpiration(options[0]?.expirationDate || targetDate));
+  const { ivHistory, recordAtmIv, recordVxn, seedVxn } = useIvHistory(tickerSymbol, ivTenor);
+
+  const { intradayMode, intradayActive, handleToggleIntradayMode } = useIntradayMode(targetDate, setTargetDate);
+
+  const stream = useQuoteStream({
+    apiKey: polygonKey,
+    quotes: polygonEntitlements?.quotes,
+    active: !replaySession && status === FetchStatus.SUCCESS,
+    rows: options,
+    reprice: {
+        underlying: tickerSymbol,
+        price: currentPrice,
+        fill: fillAssumption,
+        costBasis: parseFloat(stockCostBasis) || 0,
+        multiplier: ticker.multiplier,
+        rate: riskFreeRate
+    },
+    onRows: setOptions,
+    onPrice: (price) => {
+        setCurrentPrice(price);
+        setMarketStatus({ price, lastUpdated: now().toISOString() });
+    },
+  });
+  const { streamState, flashes } = stream;
+
+  // A live stream already keeps the table current, and replay has nothing new to fetch.
+  // 0DTE mode on today's expiration polls every minute whether or not auto-refresh is on.
+  const { autoRefresh, nextRefresh, handleChangeAutoRefresh } = useAutoRefresh({
+    forcedIntervalMinutes: intradayActive ? INTRADAY_REFRESH_INTERVAL : undefined,
+    blocked: !!replaySession || status !== FetchStatus.SUCCESS || streamState?.state === 'live',
+    realtime: sourceRealtime,
+    lastUpdated: marketStatus?.lastUpdated,
+    onRefresh: scheduledRefresh,
+  });
+
+  // Load on Mount
   useEffect(() => {
-    const savedPoly = localStorage.getItem("polygon_api_key");
-    const savedGemini = localStorage.getItem("gemini_api_key");
-    
-    if (savedPoly) setPolygonKey(savedPoly);
-    if (savedGemini) setGeminiKey(savedGemini);
+    const savedTicker = localStorage.getItem("selected_ticker");
+    if (savedTicker) setTickerSymbol(savedTicker);
+
+    const savedFill = localStorage.getItem("fill_assumption");
+    if (savedFill) {
+        try {
+            setFillAssumption({ ...DEFAULT_FILL_ASSUMPTION, ...JSON.parse(savedFill) });
+        } catch (e) {
+            console.warn("Invalid fill assumption, using defaults", e);
+        }
+    }
 
     // Don't auto-show settings, let the Hero section guide them.
   }, []);
 
-  const handleSaveKey = (type: 'polygon' | 'gemini', val: string) => {
-    if (type === 'polygon') {
-        setPolygonKey(val);
-        localStorage.setItem("polygon_api_key", val);
-        setVerificationStatus(null); // Reset status on edit
-    } else {
-        setGeminiKey(val);
-        localStorage.setItem("gemini_api_key", val);
-    }
+  // Queue progress shares the scan message channel, so long free-tier scans show why they wait
+  useEffect(() => subscribePolygonQueue(state => {
+    if (state.queued === 0) return;
+    const wait = state.waitMs > 0 ? ` · 约 ${Math.ceil(state.waitMs / 1000)}s 后继续` : '';
+    setScanMessage(`Polygon 限速排队: ${state.queued} 个等待 · ${state.inFlight} 个进行中${wait}`);
+  }), []);
+
+  // Listed expirations for the date picker. Debounced: the ticker input updates on every keystroke.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+        setIsLoadingExpirations(true);
+        const list = await loadExpirations(getTickerInfo(tickerSymbol), replaySession ? REPLAY_API_KEY : committedPolygonKey);
+        if (cancelled) return;
+        setExpirations(list);
+        setTargetDate(prev => snapToExpiration(list.dates, prev));
+        setIsLoadingExpirations(false);
+    }, 400);
+    return () => {
+        cancelled = true;
+        clearTimeout(timer);
+    };
+  }, [tickerSymbol, committedPolygonKey, replaySession, replaySelection?.asOf]);
+
+  const handleChangeTicker = (val: string) => {
+    const symbol = normalizeSymbol(val);
+    if (symbol === tickerSymbol) return;
+    setTickerSymbol(symbol);
+    localStorage.setItem("selected_ticker", symbol);
+    // Rows and price belong to the previous underlying
+    setOptions([]);
+    setSurface(null);
+    setCurrentPrice(0);
+    setMarketStatus(null);
+    setRealizedVol(null);
+    resetStructure();
+    resetMove();
+    setDataWarnings([]);
+    resetVerification();
   };
 
-  const handleTestKey = async () => {
-    if (!polygonKey) return;
-    setIsVerifying(true);
-    setVerificationStatus(null);
-    const result = await validateApiKey(polygonKey);
-    setVerificationStatus({ valid: result.valid, msg: result.message });
-    setIsVerifying(false);
+  // Fill assumption is global: re-derive every loaded row's premium & returns from the stored quote
+  const handleChangeFill = (patch: Partial<FillAssumption>) => {
+    const next = { ...fillAssumption, ...patch };
+    setFillAssumption(next);
+    localStorage.setItem("fill_assumption", JSON.stringify(next));
+    const basis = parseFloat(stockCostBasis) || 0;
+    setOptions(prev => prev.map(row => attachProbabilities(repriceRow(row, next, basis, ticker.multiplier), currentPrice, riskFreeRate)));
   };
 
-  const handleFetchData = async () => {
-    setStatus(FetchStatus.LOADING);
+  // Range scan: every expiration between minDte and maxDte, rendered as a strike × expiration heatmap
+  const handleScanSurface = async () => {
+    const providers = buildProviders();
+    if (!providers.some(p => p.isConfigured())) {
+        setErrorMsg("设置提示: 请在设置中输入 API Key (Polygon 或 Gemini)。");
+        setShowSettings(true);
+        return;
+    }
+
+    setIsScanningSurface(true);
     setErrorMsg("");
-    setSources([]);
-    setOptions([]); 
-    setVolMetrics(null); // Reset Volatility
-    
-    // Determine Contract Type based on Strategy
-    const contractType = strategy === 'CC' ? 'call' : 'put';
-    
+    setErrorGuidance(null);
     try {
-      let data;
-      
-      // --- PARALLEL FETCH: Volatility Data (VXN Index) ---
-      // Requires Gemini Key
-      if (geminiKey) {
-          setIsVolLoading(true);
-          fetchVolatilityData(geminiKey).then(metrics => {
-              setVolMetrics(metrics);
-              setIsVolLoading(false);
-          }).catch(e => {
-              console.warn("Vol fetch failed", e);
-              setIsVolLoading(false);
-          });
-      }
-      
-      // STRATEGY 1: Polygon API
-      if (polygonKey && polygonKey.length > 5) {
-        setScanMessage("正在连接 Polygon 官方数据源...");
-        try {
-            data = await fetchPolygonData(polygonKey, targetDate, contractType);
-        } catch (polyError: any) {
-            console.error("Polygon failed, falling back...", polyError);
-            const msg = polyError.message || "Unknown Error";
-            
-            // Don't throw immediately on auth error, try Gemini fallback
-            if (!geminiKey) {
-                throw new Error(`Polygon 错误: ${msg}. (未配置 Gemini Key，无法切换至 AI 搜索)`);
-            }
-
-            setErrorMsg(`Polygon API 警告: ${msg}. 正在尝试切换到 AI 搜索...`);
-            setScanMessage("Polygon 连接失败，正在切换至 Gemini AI 搜索...");
-            
-            // Fallback to Gemini
-            data = await fetchMarketData(targetDate, (msg) => setScanMessage(msg), contractType, geminiKey);
-        }
-      } 
-      // STRATEGY 2: Gemini AI Search
-      else {
-        if (!geminiKey) {
-            setErrorMsg("设置提示: 请在设置中输入 API Key (Polygon 或 Gemini)。");
-            setStatus(FetchStatus.ERROR);
-            setShowSettings(true);
-            setIsVolLoading(false);
-            return;
-        }
-        setScanMessage("正在连接 Gemini AI...");
-        data = await fetchMarketData(targetDate, (msg) => setScanMessage(msg), contractType, geminiKey);
-      }
-      
-      // Process Data
-      if (data.currentPrice) {
-        setCurrentPrice(data.currentPrice);
-      }
-
-      if (data.sources) {
-        setSources(data.sources);
-      }
-
-      if (data.options && Array.isArray(data.options) && data.options.length > 0) {
-        const basis = parseFloat(stockCostBasis) || 0;
-        const newRows = data.options.map((opt) => 
-          calculateOptionMetrics(opt.strike, opt.premium, targetDate, contractType, (opt as any).delta, basis)
+        const result = await scanYieldSurface(
+            providers,
+            chainConfig,
+            { ticker, contractType, ...surfaceRange, sigmaInputs: { preference: sigmaPreference } },
+            { costBasis: parseFloat(stockCostBasis) || 0, multiplier: ticker.multiplier, fill: fillAssumption, rate: riskFreeRate },
+            chainFilter,
+            (msg) => setScanMessage(msg)
         );
-        
-        setOptions(newRows);
-        setStatus(FetchStatus.SUCCESS);
-        if (errorMsg.includes("警告")) setErrorMsg(""); 
-        
-        // Auto-hide guide when data loads successfully to save space
-        setShowGuide(false);
-      } else {
-        setStatus(FetchStatus.SUCCESS); 
-        setErrorMsg("获取到价格，但未找到期权链数据。请尝试更换日期或手动输入。");
-      }
-
+        setSurface(result);
+        if (!currentPrice) setCurrentPrice(result.underlyingPrice);
     } catch (err: any) {
-      console.error(err);
-      setErrorMsg(err.message || "获取数据失败");
-      setStatus(FetchStatus.ERROR);
-      if (currentPrice === 0) setCurrentPrice(QQQ_DEFAULT_PRICE);
-      if (err.message.includes("Key")) {
-          setShowSettings(true);
-      }
-      setIsVolLoading(false);
+        console.error(err);
+        const info = describeError(err);
+        setErrorMsg(`${info.title}: ${err.message || "期限扫描失败"}`);
+        setErrorGuidance(info);
+        if (info.openSettings) setShowSettings(true);
+    } finally {
+        setIsScanningSurface(false);
     }
   };
 
+  // Skew (both sides of the selected expiration) and ATM IV term structure, built on the loaded chain
+  const handleLoadStructure = () => {
+    setErrorMsg("");
+    setErrorGuidance(null);
+    loadStructure(
+        buildProviders(),
+        chainConfig,
+        { ticker, expiration: targetDate, contractType, underlyingPrice: currentPrice, loaded: options, sigmaInputs: { preference: sigmaPreference } },
+        { costBasis: parseFloat(stockCostBasis) || 0, multiplier: ticker.multiplier, fill: fillAssumption, rate: riskFreeRate }
+    );
+  };
+
   const handleAddManual = (e: React.FormEvent) => {
     e.preventDefault();
     const strike = parseFloat(manualStrike);
     const premium = parseFloat(manualPremium);
-    const contractType = strategy === 'CC' ? 'call' : 'put';
     const basis = parseFloat(stockCostBasis) || 0;
 
     if (strike && premium && currentPrice) {
-      const newRow = calculateOptionMetrics(strike, premium, targetDate, contractType, undefined, basis);
+      const newRow = attachGreeks(
+          {
+              ...calculateOptionMetrics(strike, premium, targetDate, contractType, undefined, basis, ticker.multiplier),
+              provenance: { source: 'manual', basis: 'manual', quotedAt: now().toISOString() }
+          },
+          currentPrice,
+          {},
+          riskFreeRate
+      );
       if (!options.find(o => o.id === newRow.id)) {
           setOptions(prev => [...prev, newRow]);
       } else {
@@ -263,8 +360,29 @@ export default function App() {
     setOptions(prev => prev.filter(row => row.id !== id));
   };
 
+  const chainAtmIv = options.length > 0 ? getAtmIv(options, currentPrice) : undefined;
+  // Ranked against the history only when a strike is near spot, like the recorded readings
+  const historyAtmIv = options.length > 0 ? getAtmIv(options, currentPrice, atmStrikeDistance(currentPrice, ticker.strikeIncrement)) : undefined;
+
+  // Full chain is kept in `options`; table & chart only render the filtered view
+  const visibleOptions = applyChainFilter(options, chainFilter, currentPrice);
+
+  // Formula-based target strikes (±0.5σ / 1σ / 2σ move) from the resolved sigma
+  const dynamicTargets = targetSigma && currentPrice > 0 ? calculateDynamicTargets(currentPrice, targetDate, targetSigma.sigma) : null;
+  const targetLevels = dynamicTargets ? [
+      { label: '激进', k: 0.5 },
+      { label: '稳健', k: 1.0 },
+      { label: '保守', k: 2.0 },
+  ].map(t => ({ label: t.label, strike: strategy === 'CC' ? currentPrice + t.k * dynamicTargets.stdDev : currentPrice - t.k * dynamicTargets.stdDev })) : [];
+
   // Determine Badge Color based on source
   const getSourceBadge = () => {
+      if (isCrossVerifying) return <span className="bg-blue-500/20 text-blue-400 text-[10px] px-2 py-0.5 rounded border border-blue-500/30 animate-pulse">Cross-Verifying...</span>;
+      if (verification) {
+          const conflicts = verification.rows.filter(r => r.confidence === 'conflict').length;
+          if (conflicts > 0) return <span className="bg-red-500/20 text-red-400 text-[10px] px-2 py-0.5 rounded border border-red-500/30">Sources Disagree ({conflicts} strikes)</span>;
+          return <span className="bg-emerald-500/20 text-emerald-400 text-[10px] px-2 py-0.5 rounded border border-emerald-500/30">Cross-Verified ({verification.primaryLabel} + {verification.secondaryLabel})</span>;
+      }
       const isSnapshot = sources.some(s => s.title.includes("Snapshot"));
       const isFree = sources.some(s => s.title.includes("Free Tier"));
       
@@ -293,12 +411,37 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-6">
+             {replaySession && replaySelection && (
+                 <span className="hidden sm:flex items-center gap-1 text-[10px] font-bold text-rose-300 bg-rose-950/30 px-2 py-1 rounded border border-rose-500/30">
+                     <ClockCounterClockwise size={12} />
+                     回放 · As of {new Date(replaySelection.asOf).toLocaleString()}
+                 </span>
+             )}
+             {recordMode && !replaySession && (
+                 <span className="hidden sm:flex items-center gap-1 text-[10px] font-bold text-rose-400">
+                     <Record size={12} weight="fill" /> REC
+                 </span>
+             )}
              {currentPrice > 0 && (
                  <div className="text-right hidden sm:block animate-in fade-in">
-                     <p className="text-[10px] text-slate-400 uppercase tracking-wider">QQQ Price</p>
+                     <p className="text-[10px] text-slate-400 uppercase tracking-wider">{tickerSymbol} Price</p>
                      <p className="text-xl font-mono font-bold text-white leading-none">
                        {formatCurrency(currentPrice)}
                      </p>
+                     {marketStatus && (() => {
+                         const staleness = getStaleness(marketStatus.lastUpdated);
+                         return (
+                             <p 
+                                 className={`text-[10px] mt-0.5 flex items-center justify-end gap-1 ${staleness === 'fresh' ? 'text-emerald-400' : staleness === 'stale' ? 'text-yellow-400' : 'text-slate-500'}`}
+                                 title={new Date(marketStatus.lastUpdated).toLocaleString()}
+                             >
+                                 <span className={`h-1.5 w-1.5 rounded-full bg-current ${staleness === 'fresh' ? 'animate-pulse' : ''}`}></span>
+                                 As of {formatEasternTime(new Date(marketStatus.lastUpdated))}
+                                 {staleness === 'stale' && ' · 数据已过时'}
+                                 {staleness === 'settled' && ' · 已收盘'}
+                             </p>
+                         );
+                     })()}
                  </div>
              )}
              <button 
@@ -329,88 +472,15 @@ export default function App() {
 
       {/* Settings Panel Modal */}
       {showSettings && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
-             <div className="bg-slate-900 border border-slate-700 w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-y-auto">
-                  <div className="p-6 border-b border-slate-800 flex justify-between items-center sticky top-0 bg-slate-900 z-10">
-                      <div>
-                        <h2 className="text-xl font-semibold text-white flex items-center gap-2">
-                           <Key size={24} className="text-blue-400"/> 
-                           API 配置 (Settings)
-                        </h2>
-                      </div>
-                      <button onClick={() => setShowSettings(false)} className="text-slate-500 hover:text-white p-1 hover:bg-slate-800 rounded"><X size={24}/></button>
-                  </div>
-                  
-                  <div className="p-6 space-y-6">
-                      <p className="text-sm text-slate-400">为了获取实时期权链数据，您需要配置 API Key。Key 仅保存在您的本地浏览器中，不会上传服务器。</p>
-
-                      {/* Polygon Section */}
-                      <div className="bg-slate-950 p-5 rounded-xl border border-blue-900/30 shadow-inner">
-                          <label className="block text-sm font-bold text-blue-400 mb-3 flex items-center gap-2">
-                              <span className="w-2 h-2 rounded-full bg-blue-500"></span>
-                              Polygon.io API Key (推荐)
-                          </label>
-                          <div className="flex flex-col sm:flex-row gap-3">
-                              <input 
-                                type="text" 
-                                value={polygonKey}
-                                onChange={(e) => handleSaveKey('polygon', e.target.value)}
-                                placeholder="例如: Vc2_xxxxxxxxxxxxxxxxxxxx"
-                                className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:border-blue-500 outline-none font-mono text-sm shadow-inner"
-                              />
-                              <button 
-                                 onClick={handleTestKey}
-                                 disabled={isVerifying || !polygonKey}
-                                 className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-white rounded-lg transition-colors flex items-center gap-2 whitespace-nowrap"
-                              >
-                                 {isVerifying ? <CircleNotch className="animate-spin"/> : "测试 Key"}
-                              </button>
-                          </div>
-                          
-                          {verificationStatus && (
-                             <div className={`mt-3 p-2 rounded text-sm flex items-center gap-2 ${verificationStatus.valid ? 'bg-emerald-900/20 text-emerald-400' : 'bg-red-900/20 text-red-400'}`}>
-                                {verificationStatus.valid ? <CheckCircle size={18} weight="fill" /> : <WarningCircle size={18} weight="fill" />}
-                                <span>{verificationStatus.valid ? "验证成功！API Key 有效。" : verificationStatus.msg || "Key 无效"}</span>
-                             </div>
-                          )}
-
-                          <div className="mt-3 text-xs text-slate-500">
-                             没有 Key? 前往 <a href="https://polygon.io" target="_blank" className="text-blue-400 hover:underline">polygon.io</a> 注册免费账号 (Free Tier 每日 5 次请求)。
-                          </div>
-                      </div>
-
-                      {/* Gemini Section */}
-                      <div className="bg-slate-950 p-5 rounded-xl border border-purple-900/30 shadow-inner">
-                          <label className="block text-sm font-bold text-purple-400 mb-3 flex items-center gap-2">
-                             <span className="w-2 h-2 rounded-full bg-purple-500"></span>
-                             Gemini API Key (备用/AI 搜索)
-                          </label>
-                          <div className="flex flex-col sm:flex-row gap-3">
-                              <input 
-                                type="password"
-                                value={geminiKey}
-                                onChange={(e) => handleSaveKey('gemini', e.target.value)}
-                                placeholder="例如: AIzaSy..."
-                                className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:border-purple-500 outline-none font-mono text-sm shadow-inner"
-                              />
-                          </div>
-                          <div className="mt-3 text-xs text-slate-500">
-                             免费获取 Key: <a href="https://aistudio.google.com/app/apikey" target="_blank" className="text-purple-400 hover:underline">Google AI Studio</a>。
-                             用于获取 VXN 波动率指数及作为 Polygon 的备用搜索源。
-                          </div>
-                      </div>
-                  </div>
-                  
-                  <div className="p-6 border-t border-slate-800 flex justify-end bg-slate-900 rounded-b-2xl">
-                     <button 
-                        onClick={() => setShowSettings(false)}
-                        className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-semibold transition-colors shadow-lg shadow-emerald-900/20"
-                     >
-                        保存并关闭
-                     </button>
-                  </div>
-             </div>
-          </div>
+          <SettingsPanel
+              settings={settings}
+              stream={stream}
+              replay={replay}
+              verifyMode={verifyMode}
+              onToggleVerifyMode={handleToggleVerifyMode}
+              tickerSymbol={tickerSymbol}
+              onClose={() => setShowSettings(false)}
+          />
       )}
 
       <main className="max-w-7xl mx-auto px-4 py-8 space-y-8">
@@ -418,7 +488,27 @@ export default function App() {
         {/* Top Section: Volatility & Guide Toggle */}
         <div className="grid md:grid-cols-3 gap-6">
             <div className="md:col-span-2">
-                 <VolatilityCard metrics={volMetrics} isLoading={isVolLoading} />
+                 <VolatilityCard 
+                    metrics={volMetrics ? applyIvHistory(volMetrics, ivHistory.vxn) : null} 
+                    isLoading={isVolLoading} 
+                    realized={realizedVol} 
+                    chainIv={chainAtmIv} 
+                    history={[
+                        { label: `${tickerSymbol} ATM IV ${ivTenor}`, observations: ivHistory.atm, current: historyAtmIv },
+                        { label: 'VXN', observations: ivHistory.vxn, current: volMetrics ? volMetrics.currentIV / 100 : undefined },
+                    ]}
+                 />
+                 {(options.length > 0 || volStructure) && (
+                    <div className="mt-6">
+                        <VolatilityStructurePanel 
+                            structure={volStructure}
+                            isLoading={isLoadingStructure}
+                            progress={structureMessage}
+                            canLoad={options.length > 0 && currentPrice > 0 && status !== FetchStatus.LOADING}
+                            onLoad={handleLoadStructure}
+                        />
+                    </div>
+                 )}
             </div>
             <div className="flex flex-col gap-4">
                  <button 
@@ -446,6 +536,22 @@ export default function App() {
                       <div className="text-sm text-slate-300">
                           {polygonKey ? "Polygon API 就绪" : geminiKey ? "Gemini AI 就绪" : "未配置数据源"}
                       </div>
+                      {cacheReport && (
+                          <div className={`text-[11px] mt-1 ${cacheReport.stale > 0 ? 'text-yellow-400' : 'text-slate-500'}`}>
+                              {cacheReport.stale > 0 ? '显示过期缓存' : '来自缓存'}
+                              {cacheReport.oldestStoredAt && ` · ${Math.max(0, Math.round((Date.now() - cacheReport.oldestStoredAt) / 60000))} 分钟前`}
+                              {isRevalidating && ' · 正在后台刷新...'}
+                          </div>
+                      )}
+                      {streamState && (
+                          <div 
+                              className={`text-[11px] mt-1 flex items-center gap-1 ${streamState.state === 'live' ? 'text-emerald-400' : streamState.state === 'connecting' ? 'text-slate-500' : 'text-yellow-400'}`}
+                              title={streamState.message}
+                          >
+                              <span className={`h-1.5 w-1.5 rounded-full ${streamState.state === 'live' ? 'bg-emerald-500 animate-pulse' : 'bg-current'}`}></span>
+                              {{ connecting: '推送连接中...', live: '实时推送中', error: '推送连接失败', closed: '推送已断开' }[streamState.state]}
+                          </div>
+                      )}
                  </div>
             </div>
         </div>
@@ -484,16 +590,66 @@ export default function App() {
                 {/* Left: Input Controls */}
                 <div className="lg:col-span-3 space-y-5">
                     <div className="flex flex-col sm:flex-row gap-4">
-                        <div className="flex-1">
+                        <div className="sm:w-32">
                             <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">
-                                到期日 (Expiration)
+                                标的 (Ticker)
                             </label>
                             <input 
-                                type="date" 
-                                value={targetDate}
-                                onChange={(e) => setTargetDate(e.target.value)}
-                                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-mono"
+                                type="text" 
+                                list="ticker-presets"
+                                value={tickerSymbol}
+                                onChange={(e) => handleChangeTicker(e.target.value)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-mono uppercase"
                             />
+                            <datalist id="ticker-presets">
+                                {TICKER_PRESETS.map(t => <option key={t.symbol} value={t.symbol}>{t.name}</option>)}
+                            </datalist>
+                        </div>
+
+                        <div className="flex-1">
+                            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5 flex items-center gap-2">
+                                到期日 (Expiration)
+                                {isLoadingExpirations && <CircleNotch size={12} className="animate-spin" />}
+                                {expirations && !isLoadingExpirations && (
+                                    <span className="normal-case font-normal tracking-normal text-slate-600" title={expirations.source === 'polygon' ? "来自 Polygon 合约参考数据" : "根据内置交易所假日日历推算，可能与实际上市合约略有出入"}>
+                                        {expirations.source === 'polygon' ? '· Polygon 上市到期日' : '· 离线日历'}
+                                    </span>
+                                )}
+                                {expirations?.truncated && !isLoadingExpirations && (
+                                    <span className="normal-case font-normal tracking-normal text-amber-500" title="Polygon 合约列表分页达到上限，较远的到期日可能未列出">
+                                        · 列表不完整
+                                    </span>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => handleToggleIntradayMode(!intradayMode)}
+                                    title="0DTE 日内模式: 选择当日到期，按距收盘小时数计算收益，每分钟刷新"
+                                    className={`ml-auto normal-case tracking-normal px-2 py-0.5 rounded border transition-colors ${intradayMode ? 'bg-amber-500/20 text-amber-300 border-amber-500/40' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                                >
+                                    0DTE
+                                </button>
+                            </label>
+                            {expirations && expirations.dates.length > 0 ? (
+                                <select 
+                                    value={targetDate}
+                                    onChange={(e) => setTargetDate(e.target.value)}
+                                    className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-mono"
+                                >
+                                    {!expirations.dates.includes(targetDate) && <option value={targetDate}>{targetDate}</option>}
+                                    {expirations.dates.map(d => (
+                                        <option key={d} value={d}>
+                                            {d} ({['周日', '周一', '周二', '周三', '周四', '周五', '周六'][parseLocalDate(d).getDay()]} · {formatDte(getDaysToExpiration(d))})
+                                        </option>
+                                    ))}
+                                </select>
+                            ) : (
+                                <input 
+                                    type="date" 
+                                    value={targetDate}
+                                    onChange={(e) => setTargetDate(e.target.value)}
+                                    className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-1 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all font-mono"
+                                />
+                            )}
                         </div>
 
                         {/* Conditional Inputs */}
@@ -526,9 +682,9 @@ export default function App() {
                             </div>
                         )}
                         
-                        <div className="sm:w-auto flex items-end">
+                        <div className="sm:w-auto flex items-end gap-2">
                              <button 
-                                onClick={handleFetchData}
+                                onClick={() => fetchData()}
                                 disabled={status === FetchStatus.LOADING}
                                 className={`w-full sm:w-auto h-[46px] px-8 rounded-lg font-bold text-white shadow-lg transition-all flex items-center justify-center gap-2 whitespace-nowrap
                                     ${status === FetchStatus.LOADING 
@@ -543,13 +699,133 @@ export default function App() {
                                     <><MagnifyingGlass size={20} weight="bold"/> {polygonKey ? "获取数据" : "AI 搜索"}</>
                                 )}
                             </button>
+                            <button 
+                                onClick={forceRefresh}
+                                disabled={status === FetchStatus.LOADING}
+                                title="强制刷新: 忽略缓存，重新从数据源获取"
+                                className="h-[46px] px-3 rounded-lg border border-slate-700 bg-slate-950 text-slate-400 hover:text-white hover:border-slate-500 transition-colors disabled:opacity-50"
+                            >
+                                <ArrowCounterClockwise size={18} weight="bold" />
+                            </button>
                         </div>
                     </div>
                     
+                    {/* Auto Refresh (regular trading hours only) */}
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                        <label className="flex items-center gap-2">
+                            <input 
+                                type="checkbox" 
+                                checked={autoRefresh.enabled}
+                                onChange={(e) => handleChangeAutoRefresh({ enabled: e.target.checked })}
+                            />
+                            <span className="font-bold text-slate-500 uppercase tracking-wider">自动刷新</span>
+                        </label>
+                        <select 
+                            value={autoRefresh.intervalMinutes}
+                            onChange={(e) => handleChangeAutoRefresh({ intervalMinutes: Number(e.target.value) })}
+                            className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500"
+                        >
+                            {REFRESH_INTERVAL_OPTIONS.map(m => <option key={m} value={m}>每 {m} 分钟</option>)}
+                        </select>
+                        <span className="text-slate-500">
+                            {intradayMode && !intradayActive && '0DTE 模式: 当前到期日不是今日 · '}
+                            {!autoRefresh.enabled && !intradayActive ? '仅在美东常规交易时段 (9:30–16:00 ET) 运行'
+                                : replaySession ? '回放模式下暂停'
+                                : streamState?.state === 'live' ? '实时推送中，无需轮询'
+                                : !nextRefresh ? '获取数据后开始'
+                                : nextRefresh.reason === 'closed' ? `休市中 · 下次检查 ${formatEasternTime(new Date(nextRefresh.at), true)}`
+                                : nextRefresh.reason === 'delayed' ? `下次刷新 ${formatEasternTime(new Date(nextRefresh.at))} (延迟数据源，间隔放宽)`
+                                : `下次刷新 ${formatEasternTime(new Date(nextRefresh.at))}`}
+                            {intradayActive && nextRefresh && nextRefresh.reason !== 'closed' && ' · 0DTE 每分钟'}
+                        </span>
+                    </div>
+
+                    {/* Multi-expiration Scan */}
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                        <span className="font-bold text-slate-500 uppercase tracking-wider">期限扫描 (DTE)</span>
+                        <input 
+                            type="number" min="0" 
+                            value={surfaceRange.minDte}
+                            onChange={(e) => setSurfaceRange(prev => ({ ...prev, minDte: parseInt(e.target.value) || 0 }))}
+                            className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500 font-mono"
+                        />
+                        <span>至</span>
+                        <input 
+                            type="number" min="1" 
+                            value={surfaceRange.maxDte}
+                            onChange={(e) => setSurfaceRange(prev => ({ ...prev, maxDte: parseInt(e.target.value) || 0 }))}
+                            className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500 font-mono"
+                        />
+                        <span>天</span>
+                        <button 
+                            onClick={handleScanSurface}
+                            disabled={isScanningSurface || status === FetchStatus.LOADING || surfaceRange.maxDte < surfaceRange.minDte}
+                            className="px-3 py-1 rounded border bg-slate-950 border-emerald-800 text-emerald-400 hover:bg-emerald-900/20 transition-colors flex items-center gap-1 disabled:opacity-50"
+                        >
+                            {isScanningSurface ? <><CircleNotch className="animate-spin" size={12}/> {scanMessage}</> : "扫描期限结构"}
+                        </button>
+                        {surface && !isScanningSurface && (
+                            <button onClick={() => setSurface(null)} className="text-slate-600 hover:text-slate-300">清除曲面</button>
+                        )}
+                    </div>
+
+                    {/* Fill Assumption */}
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                        <span className="font-bold text-slate-500 uppercase tracking-wider">成交假设 (Fill)</span>
+                        {(['bid', 'mid', 'mid_minus'] as const).map(mode => (
+                            <button 
+                                key={mode}
+                                onClick={() => handleChangeFill({ mode })}
+                                className={`px-3 py-1 rounded border font-mono transition-colors ${fillAssumption.mode === mode ? 'bg-blue-900/30 border-blue-700 text-blue-300' : 'bg-slate-950 border-slate-700 hover:text-slate-200'}`}
+                            >
+                                {mode === 'bid' ? 'Bid' : mode === 'mid' ? 'Mid' : 'Mid − X% Spread'}
+                            </button>
+                        ))}
+                        {fillAssumption.mode === 'mid_minus' && (
+                            <label className="flex items-center gap-1">
+                                X =
+                                <input 
+                                    type="number" min="0" max="100" step="5"
+                                    value={fillAssumption.spreadPct}
+                                    onChange={(e) => handleChangeFill({ spreadPct: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                                    className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-blue-500 font-mono"
+                                />
+                                %
+                            </label>
+                        )}
+                        <span className="text-slate-600">无买卖盘报价的合约仍使用收盘/最新价。</span>
+                    </div>
+
                     {errorMsg && (
                         <div className={`p-3 rounded-lg text-sm flex items-start gap-2 ${errorMsg.includes("警告") ? "bg-yellow-900/20 border border-yellow-900/50 text-yellow-400" : "bg-red-900/20 border border-red-900/50 text-red-400"}`}>
                             {errorMsg.includes("警告") ? <Warning size={18} className="shrink-0 mt-0.5" /> : <WarningCircle size={18} className="shrink-0 mt-0.5" />}
-                            <span>{errorMsg}</span>
+                            <div className="flex-1">
+                                <span>{errorMsg}</span>
+                                {errorGuidance && (
+                                    <div className="text-xs mt-1 opacity-80 flex items-center gap-3 flex-wrap">
+                                        <span>{errorGuidance.guidance}</span>
+                                        {errorGuidance.retryable && (
+                                            <button 
+                                                onClick={() => fetchData()}
+                                                className="px-2 py-0.5 rounded border border-current hover:bg-white/5 flex items-center gap-1"
+                                            >
+                                                <ArrowCounterClockwise size={12} /> 重试
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    {dataWarnings.length > 0 && (
+                        <div className="p-3 rounded-lg text-sm bg-yellow-900/20 border border-yellow-900/50 text-yellow-400">
+                            <div className="flex items-center gap-2 font-semibold mb-1">
+                                <Warning size={18} className="shrink-0" />
+                                数据校验警告 ({dataWarnings.length}) — 以下报价可能不可靠，收益率排名仅供参考
+                            </div>
+                            <ul className="list-disc pl-8 text-xs space-y-0.5 text-yellow-400/80">
+                                {dataWarnings.map((w, i) => <li key={i}>{w}</li>)}
+                            </ul>
                         </div>
                     )}
                 </div>
@@ -575,6 +851,7 @@ export default function App() {
                         <button 
                             type="submit"
                             disabled={!currentPrice}
+                            title={currentPrice ? undefined : "需要先获取标的价格"}
                             className="bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold py-2 rounded transition-colors border border-slate-700"
                         >
                             添加
@@ -585,18 +862,24 @@ export default function App() {
         </section>
 
         {/* Visualization */}
-        {(status === FetchStatus.LOADING || options.length > 0) && (
-            <section className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+        {(status === FetchStatus.LOADING || options.length > 0 || surface) && (
+            <section className={`animate-in fade-in slide-in-from-bottom-4 duration-500 grid gap-6 ${surface && (status === FetchStatus.LOADING || options.length > 0) ? 'lg:grid-cols-2' : ''}`}>
                 {status === FetchStatus.LOADING ? (
                     <ChartSkeleton />
-                ) : (
+                ) : options.length > 0 && (
                     <YieldChart 
-                        data={options} 
+                        data={visibleOptions} 
+                        legCandidates={options}
+                        fill={fillAssumption}
                         currentPrice={currentPrice} 
                         strategy={strategy} 
                         spreadWidth={spreadWidth} // Pass width to chart
+                        expectedMove={straddleMove}
+                        targetLevels={targetLevels}
+                        multiplier={ticker.multiplier}
                     />
                 )}
+                {surface && <YieldHeatmap surface={surface} />}
             </section>
         )}
 
@@ -609,22 +892,112 @@ export default function App() {
                  </h3>
                  {status !== FetchStatus.LOADING && options.length > 0 && (
                      <span className="text-xs font-mono text-emerald-400 bg-emerald-900/20 px-3 py-1 rounded-full border border-emerald-900/50">
-                         {options.length} Contracts Loaded
+                         {visibleOptions.length} / {options.length} Contracts Shown
                      </span>
                  )}
             </div>
+
+            {/* 0DTE: expected move over the rest of the session */}
+            {intradayActive && targetSigma && currentPrice > 0 && status !== FetchStatus.LOADING && (
+                <IntradayPanel 
+                    rows={visibleOptions}
+                    currentPrice={currentPrice}
+                    expiration={targetDate}
+                    sigma={targetSigma}
+                    contractType={contractType}
+                />
+            )}
+
+            {/* Dynamic Targets (sigma & source), and the straddle-implied move for comparison */}
+            {((dynamicTargets && targetSigma) || straddleMove) && (
+                <div className="flex flex-wrap items-center gap-3 mb-3 text-xs text-slate-400">
+                    {dynamicTargets && targetSigma && (
+                        <>
+                            <span className="font-mono bg-purple-900/20 text-purple-300 px-2 py-0.5 rounded border border-purple-900/50" title="用于计算目标行权价的年化波动率">
+                                σ = {(targetSigma.sigma * 100).toFixed(1)}% · {SIGMA_SOURCE_LABELS[targetSigma.source]}
+                            </span>
+                            <span>1σ 预期波动 ±{formatCurrency(dynamicTargets.stdDev)}</span>
+                            {targetLevels.map(t => (
+                                <span key={t.label} className="font-mono">
+                                    {t.label} <span className="text-slate-200">{formatCurrency(t.strike)}</span>
+                                </span>
+                            ))}
+                        </>
+                    )}
+                    {straddleMove && (
+                        <span 
+                            className="font-mono bg-amber-900/20 text-amber-300 px-2 py-0.5 rounded border border-amber-900/50 cursor-help"
+                            title={`${formatCurrency(straddleMove.strike)} 跨式: Put ${formatCurrency(straddleMove.putPrice)} + Call ${formatCurrency(straddleMove.callPrice)}${straddleMove.source === 'parity' ? ' (Call/Put 由平价关系推算)' : ''}。跨式价格约等于到期前的平均绝对波动`}
+                        >
+                            跨式隐含 ±{formatCurrency(straddleMove.move)} · {formatCurrency(straddleMove.lower)} – {formatCurrency(straddleMove.upper)}
+                            {straddleMove.source === 'parity' && ' (平价推算)'}
+                        </span>
+                    )}
+                </div>
+            )}
+
+            {/* Chain Filters */}
+            {options.length > 0 && (
+                <div className="flex flex-wrap items-center gap-4 mb-4 text-xs text-slate-400">
+                    <label className="flex items-center gap-2">
+                        价外范围
+                        <select 
+                            value={chainFilter.maxOtmPct}
+                            onChange={(e) => setChainFilter(prev => ({ ...prev, maxOtmPct: Number(e.target.value) }))}
+                            className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-blue-500 font-mono"
+                        >
+                            <option value={5}>≤ 5%</option>
+                            <option value={10}>≤ 10%</option>
+                            <option value={15}>≤ 15%</option>
+                            <option value={20}>≤ 20%</option>
+                            <option value={30}>≤ 30%</option>
+                            <option value={100}>全部</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        最低权利金 $
+                        <input 
+                            type="number" step="0.05" min="0"
+                            value={chainFilter.minPremium}
+                            onChange={(e) => setChainFilter(prev => ({ ...prev, minPremium: parseFloat(e.target.value) || 0 }))}
+                            className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-blue-500 font-mono"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input 
+                            type="checkbox"
+                            checked={chainFilter.showItm}
+                            onChange={(e) => setChainFilter(prev => ({ ...prev, showItm: e.target.checked }))}
+                        />
+                        显示 ITM
+                    </label>
+                </div>
+            )}
             
+            {verification && status !== FetchStatus.LOADING && (
+                <div className="mb-4">
+                    <CrossVerifyPanel verification={verification} />
+                </div>
+            )}
+
             {status === FetchStatus.LOADING ? (
                 <TableSkeleton />
             ) : (
                 <OptionTable 
-                    data={options} 
+                    data={visibleOptions} 
+                    legCandidates={options}
+                    fill={fillAssumption}
                     currentPrice={currentPrice} 
                     onUpdateRow={handleUpdateRow}
                     onDeleteRow={handleDeleteRow}
                     strategy={strategy}
                     spreadWidth={spreadWidth} // Pass width to table logic
                     costBasis={parseFloat(stockCostBasis)}
+                    verification={verification}
+                    flashes={flashes}
+                    expectedMove={straddleMove}
+                    multiplier={ticker.multiplier}
+                    rate={riskFreeRate}
                 />
             )}
         </section>
@@ -645,7 +1018,13 @@ export default function App() {
                             <th className="p-2">Premium</th>
                             <th className="p-2 text-blue-400">Delta</th>
                             <th className="p-2 text-purple-400">IV</th>
+                            <th className="p-2">Gamma</th>
+                            <th className="p-2">Theta</th>
+                            <th className="p-2">Vega</th>
+                            <th className="p-2">Greeks</th>
                             <th className="p-2 text-emerald-400">WinRate</th>
+                            <th className="p-2 text-emerald-400">PoP</th>
+                            <th className="p-2 text-orange-400">Touch</th>
                         </tr>
                     </thead>
                     <tbody>
@@ -654,14 +1033,24 @@ export default function App() {
                                 <td className="p-2">${o.strike.toFixed(2)}</td>
                                 <td className="p-2">${o.premium.toFixed(2)}</td>
                                 <td className="p-2 text-blue-300">
-                                    {(o as any).delta !== undefined ? (o as any).delta : '-'}
+                                    {o.delta !== undefined ? o.delta.toFixed(4) : '-'}
                                 </td>
                                 <td className="p-2 text-purple-300">
-                                    {(o as any).iv !== undefined ? (o as any).iv : '-'}
+                                    {o.iv !== undefined ? o.iv.toFixed(4) : '-'}
                                 </td>
+                                <td className="p-2">{o.gamma !== undefined ? o.gamma.toFixed(4) : '-'}</td>
+                                <td className="p-2">{o.theta !== undefined ? o.theta.toFixed(4) : '-'}</td>
+                                <td className="p-2">{o.vega !== undefined ? o.vega.toFixed(4) : '-'}</td>
+                                <td className="p-2">{o.greeksSource || '-'}</td>
                                 <td className="p-2 text-emerald-300">
                                     {o.winRate !== undefined ? `${o.winRate.toFixed(2)}%` : 'N/A'}
                                 </td>
+                                <td className="p-2 text-emerald-300">
+                                    {o.pop !== undefined ? `${o.pop.toFixed(2)}%` : 'N/A'}
+                                </td>
+                                <td className="p-2 text-orange-300">
+                                    {o.touchProb !== undefined ? `${o.touchProb.toFixed(2)}%` : 'N/A'}
+                                </td>
                             </tr>
                         ))}
                     </tbody>
@@ -0,0 +1,87 @@
+import React from 'react';
+import { CrossVerification, VerifyConfidence } from '../types.ts';
+import { formatCurrency } from '../utils/calculations.ts';
+import { CheckCircle, Scales, Warning, WarningCircle } from '@phosphor-icons/react';
+
+interface CrossVerifyPanelProps {
+  verification: CrossVerification;
+}
+
+const CONFIDENCE_STYLES: Record<VerifyConfidence, { label: string; className: string }> = {
+  agree: { label: '双源一致', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  minor: { label: '轻微偏差', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  conflict: { label: '数据分歧', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+  single: { label: '单一来源', className: 'bg-slate-700/40 text-slate-400 border-slate-600' },
+};
+
+// Per-row confidence badge, shared with OptionTable
+export const ConfidenceBadge: React.FC<{ confidence: VerifyConfidence; title?: string }> = ({ confidence, title }) => {
+  const style = CONFIDENCE_STYLES[confidence];
+  const Icon = confidence === 'agree' ? CheckCircle : confidence === 'conflict' ? WarningCircle : Warning;
+  return (
+    <span title={title} className={`inline-flex items-center gap-0.5 text-[10px] px-1.5 py-0.5 rounded border cursor-help ${style.className}`}>
+      <Icon size={10} weight="fill" />
+      {style.label}
+    </span>
+  );
+};
+
+export const CrossVerifyPanel: React.FC<CrossVerifyPanelProps> = ({ verification }) => {
+  const { tolerance, rows } = verification;
+  const conflicts = rows.filter(r => r.confidence === 'conflict').length;
+  const compared = rows.filter(r => r.confidence !== 'single').length;
+
+  return (
+    <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-800">
+      <div className="flex justify-between items-start mb-3 gap-2 flex-wrap">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+            <Scales size={20} className="text-blue-400" />
+            交叉验证 (Cross-Source Verify)
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {verification.primaryLabel} vs {verification.secondaryLabel} · 容差: ±{formatCurrency(tolerance.absolute)} 或 ±{(tolerance.relative * 100).toFixed(0)}% (取较大者)，超出 2 倍视为分歧
+          </p>
+        </div>
+        <div className="text-right text-xs">
+          <div className={conflicts > 0 ? 'text-red-400 font-bold' : 'text-emerald-400 font-bold'}>
+            {compared - conflicts}/{compared} 个行权价一致
+          </div>
+          {verification.secondaryPrice !== undefined && (
+            <div className="text-slate-500 font-mono mt-0.5">
+              标的: {formatCurrency(verification.primaryPrice)} / {formatCurrency(verification.secondaryPrice)}
+              {verification.priceDiffPct !== undefined && ` (Δ ${verification.priceDiffPct.toFixed(2)}%)`}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead className="text-slate-500 border-b border-slate-800">
+          <tr>
+            <th className="px-2 py-1 text-left font-normal">Strike</th>
+            <th className="px-2 py-1 text-right font-normal">{verification.primaryLabel}</th>
+            <th className="px-2 py-1 text-right font-normal">{verification.secondaryLabel}</th>
+            <th className="px-2 py-1 text-right font-normal">差值</th>
+            <th className="px-2 py-1 text-right font-normal">置信度</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(r => (
+            <tr key={r.strike} className="border-b border-slate-800/50">
+              <td className="px-2 py-1 text-slate-300">{formatCurrency(r.strike)}</td>
+              <td className="px-2 py-1 text-right text-slate-300">{r.primary !== undefined ? formatCurrency(r.primary) : '—'}</td>
+              <td className="px-2 py-1 text-right text-slate-300">{r.secondary !== undefined ? formatCurrency(r.secondary) : '—'}</td>
+              <td className={`px-2 py-1 text-right ${r.confidence === 'conflict' ? 'text-red-400' : 'text-slate-400'}`}>
+                {r.diff !== undefined ? `${r.diff >= 0 ? '+' : ''}${r.diff.toFixed(2)}` : '—'}
+                {r.diffPct !== undefined && <span className="text-slate-600"> ({r.diffPct.toFixed(0)}%)</span>}
+              </td>
+              <td className="px-2 py-1 text-right"><ConfidenceBadge confidence={r.confidence} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-slate-600 mt-2">比较口径: 有买卖价时取中间价，否则取最新成交价。</p>
+    </div>
+  );
+};
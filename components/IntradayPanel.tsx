@@ -0,0 +1,70 @@
+import React from 'react';
+import { OptionRow, SigmaEstimate } from '../types.ts';
+import { calculateDynamicTargets, formatCurrency, SIGMA_SOURCE_LABELS } from '../utils/calculations.ts';
+import { easternToDate, formatEasternTime, sessionCloseMinutes } from '../utils/marketCalendar.ts';
+import { Timer } from '@phosphor-icons/react';
+
+interface IntradayPanelProps {
+  rows: OptionRow[];
+  currentPrice: number;
+  expiration: string; // Today's session date
+  sigma: SigmaEstimate;
+  contractType: 'put' | 'call';
+}
+
+// 0DTE view: hours to the close and the expected move over what's left of the session.
+// Re-derived on every render, so it follows the streamed / polled price and the clock.
+export const IntradayPanel: React.FC<IntradayPanelProps> = ({ rows, currentPrice, expiration, sigma, contractType }) => {
+  const targets = calculateDynamicTargets(currentPrice, expiration, sigma.sigma);
+  if (targets.hoursToClose === undefined) return null;
+
+  const move = targets.stdDev;
+  const band = { low: currentPrice - move, high: currentPrice + move };
+  const close = easternToDate(expiration, sessionCloseMinutes(expiration));
+
+  // Best hourly return among strikes outside the 1σ band
+  const outside = rows.filter(r => contractType === 'put' ? r.strike <= band.low : r.strike >= band.high);
+  const best = outside
+    .filter(r => r.returnPerHour !== undefined)
+    .sort((a, b) => b.returnPerHour! - a.returnPerHour!)[0];
+
+  // Bar spans ±2σ; the 1σ band is the middle half
+  const span = 4 * move;
+  const pos = (v: number) => `${Math.min(100, Math.max(0, ((v - (currentPrice - 2 * move)) / span) * 100))}%`;
+
+  return (
+    <div className="bg-amber-900/10 p-4 rounded-xl border border-amber-900/40 mb-4">
+      <div className="flex justify-between items-start gap-2 flex-wrap mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-amber-300 flex items-center gap-2">
+            <Timer size={18} />
+            0DTE 日内模式
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            距收盘 {targets.hoursToClose.toFixed(2)} 交易小时 ({formatEasternTime(close)}) · σ = {(sigma.sigma * 100).toFixed(1)}% ({SIGMA_SOURCE_LABELS[sigma.source]}) · 年化按 252×6.5 交易小时折算
+          </p>
+        </div>
+        <div className="text-right text-xs font-mono">
+          <div className="text-amber-300 font-bold">剩余时段 1σ ±{formatCurrency(move)}</div>
+          <div className="text-slate-400">{formatCurrency(band.low)} – {formatCurrency(band.high)}</div>
+        </div>
+      </div>
+
+      <div className="relative h-3 rounded bg-slate-800">
+        <div className="absolute inset-y-0 bg-amber-500/30 rounded" style={{ left: pos(band.low), right: `calc(100% - ${pos(band.high)})` }} />
+        <div className="absolute inset-y-[-3px] w-0.5 bg-white" style={{ left: pos(currentPrice) }} title={`现价 ${formatCurrency(currentPrice)}`} />
+      </div>
+      <div className="flex justify-between text-[10px] font-mono text-slate-500 mt-1">
+        <span>-2σ {formatCurrency(currentPrice - 2 * move)}</span>
+        <span>现价 {formatCurrency(currentPrice)}</span>
+        <span>+2σ {formatCurrency(currentPrice + 2 * move)}</span>
+      </div>
+
+      <div className="text-xs text-slate-400 mt-3">
+        {best ? (
+          <>1σ 区间外每小时收益最高: <span className="font-mono text-slate-200">{formatCurrency(best.strike)}</span> · <span className="font-mono text-amber-300">{best.returnPerHour!.toFixed(3)}%/h</span> (权利金 {formatCurrency(best.premium)})</>
+        ) : '1σ 区间外暂无可卖合约'}
+      </div>
+    </div>
+  );
+};
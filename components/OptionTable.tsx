@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
-import { OptionRow } from '../types.ts';
-import { formatCurrency, calculateOptionMetrics } from '../utils/calculations.ts';
+import { CrossVerification, FillAssumption, FlashDirection, OptionRow, Provenance, StraddleMove } from '../types.ts';
+import { formatCurrency, calculateOptionMetrics, resolveFillPrice, getFillLabel, DEFAULT_FILL_ASSUMPTION, attachProbabilities, calculateSpreadPop, annualizeRoi, isIndicativePremium, PREMIUM_BASIS_LABELS } from '../utils/calculations.ts';
+import { getStaleness } from '../utils/refreshSchedule.ts';
+import { now } from '../utils/clock.ts';
 import { Info, Warning } from '@phosphor-icons/react';
+import { ConfidenceBadge } from './CrossVerifyPanel.tsx';
 
 interface OptionTableProps {
   data: OptionRow[];
@@ -11,8 +14,68 @@ interface OptionTableProps {
   strategy: 'CSP' | 'PCS' | 'CC';
   spreadWidth?: number; // Expected spread width (e.g., 5, 10)
   costBasis?: number;
+  legCandidates?: OptionRow[]; // Full chain for long-leg lookup when `data` is filtered
+  fill?: FillAssumption;
+  verification?: CrossVerification | null; // Second-source premiums for a confidence badge per strike
+  flashes?: Record<string, FlashDirection>; // Row ids whose premium just moved on a streamed quote
+  expectedMove?: StraddleMove | null; // Straddle-implied band; OTM strikes inside it are marked
+  multiplier?: number; // Shares per contract (spread risk is shown per contract)
+  rate?: number; // Risk-free rate for re-derived probabilities on edited rows
 }
 
+const FLASH_CLASS: Record<FlashDirection, string> = {
+  up: 'bg-emerald-500/20',
+  down: 'bg-red-500/20',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  polygon: 'Polygon.io',
+  gemini: 'Gemini AI',
+  manual: '手动',
+};
+
+// Where the premium came from. Indicative (prior-day / AI) and stale premiums are flagged in yellow.
+const ProvenanceTag: React.FC<{ provenance?: Provenance }> = ({ provenance }) => {
+  if (!provenance) return null;
+  const staleness = provenance.quotedAt ? getStaleness(provenance.quotedAt) : undefined;
+  const flagged = isIndicativePremium(provenance) || staleness === 'stale';
+  const title = [
+    `来源: ${SOURCE_LABELS[provenance.source] ?? provenance.source}`,
+    `类型: ${PREMIUM_BASIS_LABELS[provenance.basis]}${provenance.delayed ? ' (延迟行情)' : ''}`,
+    `时间: ${provenance.quotedAt ? new Date(provenance.quotedAt).toLocaleString() : '未知'}`,
+  ].join('\n');
+  return (
+    <div title={title} className={`text-[10px] flex items-center gap-0.5 cursor-help ${flagged ? 'text-yellow-400' : 'text-slate-500'}`}>
+      {flagged && <Warning size={10} weight="fill" />}
+      {PREMIUM_BASIS_LABELS[provenance.basis]}
+      {provenance.delayed && ' · 延迟'}
+      {staleness === 'stale' && ' · 过时'}
+    </div>
+  );
+};
+
+// Probability cell: bar + percentage. `inverse` colors high values as risk (e.g. touch probability).
+const ProbabilityCell: React.FC<{ value?: number; inverse?: boolean; title?: string }> = ({ value, inverse = false, title }) => {
+  if (value === undefined) {
+    return <span className="text-slate-600 text-xs cursor-help" title="缺少隐含波动率，无法计算">N/A</span>;
+  }
+  const good = inverse ? value < 20 : value > 80;
+  const ok = inverse ? value < 40 : value > 60;
+  return (
+    <div className="flex items-center gap-2" title={title}>
+      <div className="w-12 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div 
+          className={`h-full rounded-full ${good ? 'bg-emerald-500' : ok ? 'bg-yellow-500' : 'bg-red-500'}`}
+          style={{ width: `${value}%` }}
+        ></div>
+      </div>
+      <span className={`text-xs font-mono ${good ? 'text-emerald-400' : 'text-slate-400'}`}>
+        {value.toFixed(0)}%
+      </span>
+    </div>
+  );
+};
+
 export const OptionTable: React.FC<OptionTableProps> = ({ 
     data, 
     currentPrice, 
@@ -20,7 +83,14 @@ export const OptionTable: React.FC<OptionTableProps> = ({
     onDeleteRow, 
     strategy,
     spreadWidth = 5, // Default to 5
-    costBasis = 0
+    costBasis = 0,
+    legCandidates,
+    fill = DEFAULT_FILL_ASSUMPTION,
+    verification,
+    flashes,
+    expectedMove,
+    multiplier = 100,
+    rate
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValues, setEditValues] = useState<{premium: string, strike: string} | null>(null);
@@ -36,18 +106,15 @@ export const OptionTable: React.FC<OptionTableProps> = ({
       const newStrike = parseFloat(editValues.strike);
       
       if (!isNaN(newPremium) && !isNaN(newStrike)) {
-        // Recalculate based on existing expiration, strategy type is assumed same
-        // Note: In a real app we might need to pass contractType down or derive it
-        const updated = calculateOptionMetrics(newStrike, newPremium, row.expirationDate); 
-        // Preserve extra data like iv/delta/type if present
-        const existing = row as any;
-        const updatedAny = updated as any;
-        if (existing.iv) updatedAny.iv = existing.iv;
-        if (existing.delta) updatedAny.delta = existing.delta;
-        if (existing.type) updatedAny.type = existing.type;
-        if (existing.winRate) updatedAny.winRate = existing.winRate;
+        // Same side, contract size and cost basis as freshly loaded rows; iv carries over
+        const updated: OptionRow = {
+          ...calculateOptionMetrics(newStrike, newPremium, row.expirationDate, row.type, row.delta, costBasis, multiplier),
+          iv: row.iv,
+          provenance: { source: 'manual', basis: 'manual', quotedAt: now().toISOString() }
+        };
         
-        onUpdateRow(updated);
+        // Breakeven moved with the new premium, so PoP / touch need recomputing
+        onUpdateRow(attachProbabilities(updated, currentPrice, rate));
       }
     }
     setEditingId(null);
@@ -60,8 +127,18 @@ export const OptionTable: React.FC<OptionTableProps> = ({
   const isCall = strategy === 'CC';
   const sortedData = [...data].sort((a, b) => isCall ? a.strike - b.strike : b.strike - a.strike);
 
+  // Indicative premiums next to real quotes would rank yesterday's close against today's bid
+  const indicativeCount = data.filter(row => isIndicativePremium(row.provenance)).length;
+  const mixedBasis = indicativeCount > 0 && indicativeCount < data.length;
+
   return (
     <div className="overflow-x-auto rounded-xl border border-slate-800 bg-slate-900/50">
+      {mixedBasis && (
+        <div className="px-4 py-2 text-xs text-yellow-400 bg-yellow-900/10 border-b border-yellow-900/30 flex items-center gap-2">
+          <Warning size={14} weight="fill" />
+          混合数据: {indicativeCount} 行权利金为前收盘价 / AI 搜索结果 (标 ≈)，仅供参考，不可与实时报价的年化收益直接比较。
+        </div>
+      )}
       <table className="w-full text-sm text-left text-slate-400">
         <thead className="text-xs uppercase bg-slate-800 text-slate-300">
           <tr>
@@ -82,16 +159,38 @@ export const OptionTable: React.FC<OptionTableProps> = ({
             <th scope="col" className="px-4 py-4 hidden sm:table-cell">价外深度 (OTM)</th>
             <th scope="col" className="px-4 py-4 hidden md:table-cell text-slate-500">
                 <div className="flex items-center gap-1">
-                    预估胜率 (PoP)
+                    价外到期 (1-|Δ|)
+                    <div className="group relative">
+                        <Info size={14} className="text-slate-500 cursor-help"/>
+                        <div className="absolute left-0 top-6 w-64 bg-slate-900 border border-slate-700 p-2 rounded shadow-xl hidden group-hover:block z-10 text-xs text-slate-400 normal-case font-normal">
+                            基于 Delta 的估算 (1 - |Delta|)。表示合约在行权价处到期归零的概率，不等于盈利概率。
+                        </div>
+                    </div>
+                </div>
+            </th>
+            <th scope="col" className="px-4 py-4 hidden md:table-cell">
+                <div className="flex items-center gap-1">
+                    盈利概率 (PoP)
+                    <div className="group relative">
+                        <Info size={14} className="text-slate-500 cursor-help"/>
+                        <div className="absolute left-0 top-6 w-64 bg-slate-900 border border-slate-700 p-2 rounded shadow-xl hidden group-hover:block z-10 text-xs text-slate-400 normal-case font-normal">
+                            对数正态模型下，到期时标的价格高于盈亏平衡点的概率 (使用隐含波动率)。价差策略按 卖方行权价 - 净权利金 计算。
+                        </div>
+                    </div>
+                </div>
+            </th>
+            <th scope="col" className="px-4 py-4 hidden lg:table-cell text-slate-500">
+                <div className="flex items-center gap-1">
+                    触及概率 (Touch)
                     <div className="group relative">
                         <Info size={14} className="text-slate-500 cursor-help"/>
                         <div className="absolute left-0 top-6 w-64 bg-slate-900 border border-slate-700 p-2 rounded shadow-xl hidden group-hover:block z-10 text-xs text-slate-400 normal-case font-normal">
-                            基于 Delta 计算的胜率估算 (1 - |Delta|)。表示合约到期归零（卖方获利）的概率。
+                            到期前标的价格至少一次触及行权价的概率。通常约为价内到期概率的两倍，决定您需要面对“被测试”的频率。
                         </div>
                     </div>
                 </div>
             </th>
-            <th scope="col" className="px-4 py-4 min-w-[100px]">权利金 (Bid)</th>
+            <th scope="col" className="px-4 py-4 min-w-[100px]">权利金 ({getFillLabel(fill)})</th>
             {strategy === 'PCS' && <th scope="col" className="px-4 py-4 text-blue-400">净权利金</th>}
             
             <th scope="col" className="px-4 py-4 hidden md:table-cell">
@@ -109,7 +208,7 @@ export const OptionTable: React.FC<OptionTableProps> = ({
         <tbody>
           {sortedData.length === 0 && (
             <tr>
-              <td colSpan={strategy === 'PCS' ? 9 : 8} className="px-6 py-8 text-center text-slate-500 italic">
+              <td colSpan={strategy === 'PCS' ? 11 : 10} className="px-6 py-8 text-center text-slate-500 italic">
                 暂无数据。请点击上方“获取数据”或手动添加。
               </td>
             </tr>
@@ -123,6 +222,8 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                 
             // ITM Logic: Put (Strike > Price), Call (Strike < Price)
             const isITM = isCall ? row.strike < currentPrice : row.strike > currentPrice;
+            const check = verification?.rows.find(v => v.strike === row.strike);
+            const flash = flashes?.[row.id];
             
             // PoP / Delta
             const winRate = (row as any).winRate;
@@ -135,17 +236,18 @@ export const OptionTable: React.FC<OptionTableProps> = ({
             let spreadRoi = 0;
             let spreadAnnReturn = 0;
             let spreadActualWidth = 0;
+            let spreadPop: number | undefined = undefined;
 
             if (strategy === 'PCS') {
                 // Target strike for long leg
                 const targetStrike = row.strike - spreadWidth;
                 
                 // Find the closest available strike to the target
-                // We search the whole dataset to be safe
+                // We search the whole chain (not just visible rows) to be safe
                 let bestMatch = null;
                 let minDiff = Number.MAX_VALUE;
                 
-                sortedData.forEach(candidate => {
+                (legCandidates || data).forEach(candidate => {
                     // Must be lower strike for Put Spread
                     if (candidate.strike < row.strike) {
                         const diff = Math.abs(candidate.strike - targetStrike);
@@ -159,15 +261,18 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                 longLeg = bestMatch;
 
                 if (longLeg) {
-                    netCredit = row.premium - longLeg.premium;
+                    // Long leg is bought, so it fills on the ask side of the same assumption
+                    const longPremium = resolveFillPrice(longLeg, fill, 'buy') ?? longLeg.premium;
+                    netCredit = row.premium - longPremium;
                     spreadActualWidth = row.strike - longLeg.strike;
-                    spreadRisk = (spreadActualWidth * 100) - (netCredit * 100);
-                    const netCreditTotal = netCredit * 100;
+                    spreadRisk = (spreadActualWidth * multiplier) - (netCredit * multiplier);
+                    const netCreditTotal = netCredit * multiplier;
                     
                     if (spreadRisk > 0) {
                         spreadRoi = (netCreditTotal / spreadRisk) * 100;
-                        spreadAnnReturn = spreadRoi * (365 / row.daysToExpiration);
+                        spreadAnnReturn = annualizeRoi(spreadRoi, row.daysToExpiration, row.hoursToClose);
                     }
+                    spreadPop = calculateSpreadPop(row, netCredit, currentPrice);
                 }
             }
             
@@ -201,6 +306,22 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                     </div>
                   )}
                   {isITM && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-red-500/20 text-red-400">ITM</span>}
+                  {!isITM && expectedMove && row.strike > expectedMove.lower && row.strike < expectedMove.upper && (
+                    <span 
+                      className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 cursor-help"
+                      title={`在跨式隐含预期波动内 (${formatCurrency(expectedMove.lower)} – ${formatCurrency(expectedMove.upper)})，市场预计到期前可能触及`}
+                    >
+                      EM 内
+                    </span>
+                  )}
+                  {check && (
+                    <div className="mt-1">
+                      <ConfidenceBadge 
+                        confidence={check.confidence} 
+                        title={`${verification!.primaryLabel}: ${check.primary !== undefined ? formatCurrency(check.primary) : '—'} · ${verification!.secondaryLabel}: ${check.secondary !== undefined ? formatCurrency(check.secondary) : '—'}`}
+                      />
+                    </div>
+                  )}
                 </td>
 
                 {/* Spread Viz (PCS) */}
@@ -232,7 +353,7 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                 </td>
 
                  {/* Win Rate (PoP) */}
-                <td className="px-4 py-4 hidden md:table-cell" title={deltaVal !== undefined ? `Raw Delta: ${deltaVal}` : "Delta not available"}>
+                <td className="px-4 py-4 hidden md:table-cell" title={deltaVal !== undefined ? `${row.greeksSource === 'local' ? 'Model' : 'Vendor'} Delta: ${deltaVal}` : "Delta not available"}>
                     {winRate !== undefined ? (
                         <div className="flex items-center gap-2">
                             <div className="w-12 h-1.5 bg-slate-800 rounded-full overflow-hidden">
@@ -244,14 +365,37 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                             <span className={`text-xs font-mono ${winRate > 80 ? 'text-emerald-400' : 'text-slate-400'}`}>
                                 {winRate.toFixed(0)}%
                             </span>
+                            {row.greeksSource === 'local' && (
+                                <span 
+                                    className="text-[9px] px-1 rounded bg-yellow-500/10 text-yellow-500/80 border border-yellow-500/20 cursor-help"
+                                    title={`Greeks 由本地 Black-Scholes 模型根据权利金反推 (IV ${row.iv !== undefined ? (row.iv * 100).toFixed(1) + '%' : '-'})`}
+                                >
+                                    BS
+                                </span>
+                            )}
                         </div>
                     ) : (
-                        <span className="text-slate-600 text-xs cursor-help" title="Free Tier 模式下无法获取准确 Delta">N/A</span>
+                        <span className="text-slate-600 text-xs cursor-help" title="数据源未提供 Delta，且无法从权利金反推隐含波动率">N/A</span>
                     )}
                 </td>
 
+                {/* Probability of Profit (at breakeven) */}
+                <td className="px-4 py-4 hidden md:table-cell">
+                    <ProbabilityCell 
+                        value={strategy === 'PCS' ? spreadPop : row.pop}
+                        title={strategy === 'PCS' 
+                            ? (longLeg ? `价差盈亏平衡点: $${(row.strike - netCredit).toFixed(2)}` : undefined)
+                            : `盈亏平衡点: $${row.breakeven.toFixed(2)}`}
+                    />
+                </td>
+
+                {/* Probability of Touch */}
+                <td className="px-4 py-4 hidden lg:table-cell">
+                    <ProbabilityCell value={row.touchProb} inverse title={`触及 $${row.strike} 的概率`} />
+                </td>
+
                 {/* Premium */}
-                <td className="px-4 py-4 text-slate-200">
+                <td className={`px-4 py-4 text-slate-200 transition-colors duration-500 ${flash ? FLASH_CLASS[flash] : ''}`}>
                    {isEditing ? (
                      <input 
                         type="number" 
@@ -260,7 +404,15 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                         onChange={(e) => setEditValues(prev => ({...prev!, premium: e.target.value}))}
                      />
                   ) : (
-                    formatCurrency(row.premium)
+                    <>
+                      {formatCurrency(row.premium)}
+                      {row.bid !== undefined && row.ask !== undefined && (
+                        <div className="text-[10px] font-mono text-slate-500">
+                          {row.bid.toFixed(2)} × {row.ask.toFixed(2)}
+                        </div>
+                      )}
+                      <ProvenanceTag provenance={row.provenance} />
+                    </>
                   )}
                 </td>
 
@@ -274,7 +426,7 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                 {/* Strategy Specific Metric */}
                 <td className="px-4 py-4 hidden md:table-cell text-slate-300">
                   {strategy === 'CSP' && formatCurrency(row.breakeven)}
-                  {strategy === 'PCS' && (longLeg ? <span className="text-orange-300">{formatCurrency(spreadRisk / 100)}</span> : '-')}
+                  {strategy === 'PCS' && (longLeg ? <span className="text-orange-300">{formatCurrency(spreadRisk / multiplier)}</span> : '-')}
                   {strategy === 'CC' && (
                       <span className={profitIfCalled > 0 ? 'text-emerald-300' : 'text-red-400'}>
                           {formatCurrency(profitIfCalled)}
@@ -283,17 +435,19 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                 </td>
 
                 {/* Annualized Return */}
-                <td className="px-4 py-4 font-bold text-emerald-400 text-base">
+                <td className={`px-4 py-4 font-bold text-emerald-400 text-base transition-colors duration-500 ${flash ? FLASH_CLASS[flash] : ''}`}>
                   {strategy === 'CSP' && (
                       <>
-                        {row.annualizedReturn.toFixed(2)}%
+                        {mixedBasis && isIndicativePremium(row.provenance) && '≈'}{row.annualizedReturn.toFixed(2)}%
                         <div className="text-[10px] font-normal text-slate-500">ROI: {row.roi.toFixed(2)}%</div>
+                        {row.returnPerHour !== undefined && <div className="text-[10px] font-normal text-amber-400" title="当日到期: ROI ÷ 距收盘剩余交易小时">每小时 {row.returnPerHour.toFixed(3)}%</div>}
                       </>
                   )}
                   {strategy === 'CC' && (
                       <>
-                        {row.annualizedReturn.toFixed(2)}%
+                        {mixedBasis && isIndicativePremium(row.provenance) && '≈'}{row.annualizedReturn.toFixed(2)}%
                         <div className="text-[10px] font-normal text-slate-500">ROI: {row.roi.toFixed(2)}%</div>
+                        {row.returnPerHour !== undefined && <div className="text-[10px] font-normal text-amber-400" title="当日到期: ROI ÷ 距收盘剩余交易小时">每小时 {row.returnPerHour.toFixed(3)}%</div>}
                       </>
                   )}
                   {strategy === 'PCS' && (
@@ -301,6 +455,7 @@ export const OptionTable: React.FC<OptionTableProps> = ({
                          <>
                             {spreadAnnReturn.toFixed(2)}%
                             <div className="text-[10px] font-normal text-slate-500">ROI: {spreadRoi.toFixed(2)}%</div>
+                            {row.hoursToClose !== undefined && <div className="text-[10px] font-normal text-amber-400" title="当日到期: ROI ÷ 距收盘剩余交易小时">每小时 {(spreadRoi / row.hoursToClose).toFixed(3)}%</div>}
                          </>
                       ) : <span className="text-slate-600 text-xs">需更多数据</span>
                   )}
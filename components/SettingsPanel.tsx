@@ -0,0 +1,347 @@
+import React from 'react';
+import { PolygonPlan, SigmaSource } from '../types.ts';
+import { DEFAULT_PROVIDER_CHAIN_CONFIG } from '../services/providerChain.ts';
+import { POLYGON_WS_BASE } from '../services/polygonStream.ts';
+import { formatLocalDate } from '../utils/marketCalendar.ts';
+import { SettingsState } from '../hooks/useSettings.ts';
+import { ReplayState, downloadSession } from '../hooks/useReplay.ts';
+import { QuoteStreamState } from '../hooks/useQuoteStream.ts';
+import { CircleNotch, X, Key, CheckCircle, WarningCircle, Record, DownloadSimple, UploadSimple, Trash } from '@phosphor-icons/react';
+
+interface SettingsPanelProps {
+  settings: SettingsState;
+  stream: Pick<QuoteStreamState, 'streamMode' | 'streamUrl' | 'handleToggleStreamMode' | 'handleChangeStreamUrl'>;
+  replay: ReplayState;
+  verifyMode: boolean;
+  onToggleVerifyMode: (on: boolean) => void;
+  tickerSymbol: string;
+  onClose: () => void;
+}
+
+// ISO timestamp <-> value of a local <input type="datetime-local">
+const toDateTimeInput = (iso: string) => {
+  const d = new Date(iso);
+  return `${formatLocalDate(d)}T${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, stream, replay, verifyMode, onToggleVerifyMode, tickerSymbol, onClose }) => {
+  const {
+    polygonKey, geminiKey, polygonPlan, polygonEntitlements, isVerifying, verificationStatus,
+    chainConfig, riskFreeRate, sigmaPreference,
+    handleSaveKey, handleTestKey, handleChangePolygonPlan, handleUpdateChainConfig,
+    handleChangeRiskFreeRate, handleChangeSigmaPreference,
+  } = settings;
+  const { streamMode, streamUrl, handleToggleStreamMode, handleChangeStreamUrl } = stream;
+  const {
+    recordMode, recordedSessions, replaySelection, replaySession,
+    handleToggleRecordMode, handleSelectReplay, handleChangeAsOf, handleDeleteRecording, handleImportRecording,
+  } = replay;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+       <div className="bg-slate-900 border border-slate-700 w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-800 flex justify-between items-center sticky top-0 bg-slate-900 z-10">
+                <div>
+                  <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+                     <Key size={24} className="text-blue-400"/> 
+                     API 配置 (Settings)
+                  </h2>
+                </div>
+                <button onClick={onClose} className="text-slate-500 hover:text-white p-1 hover:bg-slate-800 rounded"><X size={24}/></button>
+            </div>
+            
+            <div className="p-6 space-y-6">
+                <p className="text-sm text-slate-400">为了获取实时期权链数据，您需要配置 API Key。Key 仅保存在您的本地浏览器中，不会上传服务器。</p>
+
+                {/* Polygon Section */}
+                <div className="bg-slate-950 p-5 rounded-xl border border-blue-900/30 shadow-inner">
+                    <label className="block text-sm font-bold text-blue-400 mb-3 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-blue-500"></span>
+                        Polygon.io API Key (推荐)
+                    </label>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input 
+                          type="text" 
+                          value={polygonKey}
+                          onChange={(e) => handleSaveKey('polygon', e.target.value)}
+                          placeholder="例如: Vc2_xxxxxxxxxxxxxxxxxxxx"
+                          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:border-blue-500 outline-none font-mono text-sm shadow-inner"
+                        />
+                        <button 
+                           onClick={() => handleTestKey(tickerSymbol)}
+                           disabled={isVerifying || !polygonKey}
+                           className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-white rounded-lg transition-colors flex items-center gap-2 whitespace-nowrap"
+                        >
+                           {isVerifying ? <CircleNotch className="animate-spin"/> : "测试 Key"}
+                        </button>
+                    </div>
+                    
+                    {verificationStatus && (
+                       <div className={`mt-3 p-2 rounded text-sm flex items-center gap-2 ${verificationStatus.valid ? 'bg-emerald-900/20 text-emerald-400' : 'bg-red-900/20 text-red-400'}`}>
+                          {verificationStatus.valid ? <CheckCircle size={18} weight="fill" /> : <WarningCircle size={18} weight="fill" />}
+                          <span>{verificationStatus.msg || (verificationStatus.valid ? "验证成功！API Key 有效。" : "Key 无效")}</span>
+                       </div>
+                    )}
+
+                    {polygonEntitlements && (
+                       <div className="mt-3 p-3 rounded-lg bg-slate-900 border border-slate-800 text-xs">
+                          <div className="flex justify-between items-center mb-2">
+                             <span className="text-slate-400 font-bold">套餐权限 (Entitlements)</span>
+                             <span className="text-slate-600">检测于 {new Date(polygonEntitlements.checkedAt).toLocaleString()}</span>
+                          </div>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+                             {[
+                                { label: "期权链快照 (Snapshot)", ok: polygonEntitlements.snapshot, detail: polygonEntitlements.snapshot ? "完整期权链 + IV/Greeks" : "Free Tier 智能选筹 (前收盘价)" },
+                                { label: "期权报价", ok: polygonEntitlements.quotes !== 'none', detail: { realtime: "实时", delayed: "延迟 15 分钟", none: "无买卖价" }[polygonEntitlements.quotes] },
+                                { label: "标的最新成交", ok: polygonEntitlements.lastTrade, detail: polygonEntitlements.lastTrade ? "Last Trade" : "使用前收盘价" },
+                                { label: "日线历史", ok: polygonEntitlements.aggregatesYears > 0, detail: polygonEntitlements.aggregatesYears > 0 ? `≥ ${polygonEntitlements.aggregatesYears} 年` : "不可用" },
+                                { label: "WebSocket 推送", ok: polygonEntitlements.websocket, detail: polygonEntitlements.websocket ? "可用" : "不可用" },
+                             ].map(row => (
+                                <div key={row.label} className="flex items-center gap-1.5">
+                                   {row.ok ? <CheckCircle size={14} weight="fill" className="text-emerald-400 shrink-0" /> : <WarningCircle size={14} weight="fill" className="text-slate-600 shrink-0" />}
+                                   <span className="text-slate-300">{row.label}</span>
+                                   <span className="text-slate-500 ml-auto">{row.detail}</span>
+                                </div>
+                             ))}
+                          </div>
+                       </div>
+                    )}
+
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                        <span className="text-slate-400 text-xs">套餐速率限制</span>
+                        <select 
+                            value={polygonPlan}
+                            onChange={(e) => handleChangePolygonPlan(e.target.value as PolygonPlan)}
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-white text-xs outline-none focus:border-blue-500"
+                        >
+                            <option value="free">Free / Basic (5 次/分钟，自动排队)</option>
+                            <option value="paid">付费套餐 (不限速)</option>
+                        </select>
+                    </div>
+
+                    <div className="mt-3 flex flex-col gap-2 text-sm">
+                        <label className="flex items-center gap-2 text-slate-400">
+                            <input 
+                                type="checkbox" 
+                                checked={streamMode}
+                                onChange={(e) => handleToggleStreamMode(e.target.checked)}
+                            />
+                            实时推送模式 (WebSocket): 加载期权链后订阅报价，原地更新权利金与收益率
+                        </label>
+                        {streamMode && (
+                            <>
+                                <input 
+                                    type="text" 
+                                    value={streamUrl}
+                                    onChange={(e) => handleChangeStreamUrl(e.target.value.trim())}
+                                    placeholder={`默认 ${POLYGON_WS_BASE[polygonEntitlements?.quotes === 'realtime' ? 'realtime' : 'delayed']}；本地测试: ws://localhost:8765`}
+                                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-white text-xs font-mono outline-none focus:border-blue-500"
+                                />
+                                {polygonEntitlements && !polygonEntitlements.websocket && !streamUrl && (
+                                    <span className="text-xs text-yellow-400">当前套餐未检测到 WebSocket 权限，推送可能无法连接。</span>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    <div className="mt-3 text-xs text-slate-500">
+                       没有 Key? 前往 <a href="https://polygon.io" target="_blank" className="text-blue-400 hover:underline">polygon.io</a> 注册免费账号 (Free Tier 每分钟 5 次请求，超出部分自动排队并在 429 后重试)。
+                    </div>
+                </div>
+
+                {/* Gemini Section */}
+                <div className="bg-slate-950 p-5 rounded-xl border border-purple-900/30 shadow-inner">
+                    <label className="block text-sm font-bold text-purple-400 mb-3 flex items-center gap-2">
+                       <span className="w-2 h-2 rounded-full bg-purple-500"></span>
+                       Gemini API Key (备用/AI 搜索)
+                    </label>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input 
+                          type="password"
+                          value={geminiKey}
+                          onChange={(e) => handleSaveKey('gemini', e.target.value)}
+                          placeholder="例如: AIzaSy..."
+                          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-3 text-white focus:border-purple-500 outline-none font-mono text-sm shadow-inner"
+                        />
+                    </div>
+                    <div className="mt-3 text-xs text-slate-500">
+                       免费获取 Key: <a href="https://aistudio.google.com/app/apikey" target="_blank" className="text-purple-400 hover:underline">Google AI Studio</a>。
+                       用于获取 VXN 波动率指数及作为 Polygon 的备用搜索源。
+                    </div>
+                </div>
+
+                {/* Pricing Model Section */}
+                <div className="bg-slate-950 p-5 rounded-xl border border-slate-800 shadow-inner">
+                    <label className="block text-sm font-bold text-slate-300 mb-3 flex items-center gap-2">
+                       <span className="w-2 h-2 rounded-full bg-yellow-500"></span>
+                       定价模型 (Black-Scholes)
+                    </label>
+                    <div className="flex items-center gap-3 text-sm text-slate-400">
+                        无风险利率
+                        <input 
+                            type="number" step="0.1" min="0"
+                            value={(riskFreeRate * 100).toFixed(2)}
+                            onChange={(e) => handleChangeRiskFreeRate((parseFloat(e.target.value) || 0) / 100)}
+                            className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white outline-none focus:border-yellow-500 font-mono"
+                        />
+                        %
+                    </div>
+                    <div className="mt-3 text-xs text-slate-500">
+                       数据源未提供 IV / Greeks 时 (Free Tier、AI 搜索、手动录入)，系统会用该利率从权利金反推隐含波动率并计算 Delta / Gamma / Theta / Vega。
+                    </div>
+                </div>
+
+                {/* Sigma Source Section */}
+                <div className="bg-slate-950 p-5 rounded-xl border border-slate-800 shadow-inner">
+                    <label className="block text-sm font-bold text-slate-300 mb-3 flex items-center gap-2">
+                       <span className="w-2 h-2 rounded-full bg-purple-500"></span>
+                       动态目标波动率来源 (σ)
+                    </label>
+                    <select 
+                        value={sigmaPreference.join(',')}
+                        onChange={(e) => handleChangeSigmaPreference((e.target.value ? e.target.value.split(',') : []) as SigmaSource[])}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-purple-500"
+                    >
+                        <option value="atm_iv,vxn,realized">ATM IV → VXN → 历史波动率</option>
+                        <option value="vxn,atm_iv,realized">VXN → ATM IV → 历史波动率</option>
+                        <option value="realized,atm_iv,vxn">历史波动率 → ATM IV → VXN</option>
+                        <option value="">固定基准 18% (旧版行为)</option>
+                    </select>
+                    <div className="mt-3 text-xs text-slate-500">
+                       用于计算激进 / 稳健 / 保守目标行权价 (Free Tier 智能选筹)。依次尝试，均不可用时回退到固定 18%。VXN 仅适用于 QQQ。
+                    </div>
+                </div>
+
+                {/* Provider Chain Section */}
+                <div className="bg-slate-950 p-5 rounded-xl border border-slate-800 shadow-inner">
+                    <label className="block text-sm font-bold text-slate-300 mb-3 flex items-center gap-2">
+                       <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+                       数据源优先级 (Provider Chain)
+                    </label>
+                    <div className="flex flex-col gap-3 text-sm">
+                        <select 
+                            value={chainConfig.priority[0]}
+                            onChange={(e) => handleUpdateChainConfig({ 
+                                priority: [e.target.value, ...DEFAULT_PROVIDER_CHAIN_CONFIG.priority.filter(id => id !== e.target.value)] 
+                            })}
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white outline-none focus:border-emerald-500"
+                        >
+                            <option value="polygon">Polygon 优先，Gemini 备用</option>
+                            <option value="gemini">Gemini 优先，Polygon 备用</option>
+                        </select>
+                        <label className="flex items-center gap-2 text-slate-400">
+                            <input 
+                                type="checkbox" 
+                                checked={chainConfig.fallbackOnError}
+                                onChange={(e) => handleUpdateChainConfig({ fallbackOnError: e.target.checked })}
+                            />
+                            主数据源报错时自动切换到备用源
+                        </label>
+                        <label className="flex items-center gap-2 text-slate-400">
+                            <input 
+                                type="checkbox" 
+                                checked={chainConfig.fallbackOnEmpty}
+                                onChange={(e) => handleUpdateChainConfig({ fallbackOnEmpty: e.target.checked })}
+                            />
+                            期权链为空时也切换到备用源
+                        </label>
+                        <label className="flex items-center gap-2 text-slate-400">
+                            <input 
+                                type="checkbox" 
+                                checked={verifyMode}
+                                onChange={(e) => onToggleVerifyMode(e.target.checked)}
+                            />
+                            交叉验证模式: 两个 Key 都配置时，用另一数据源复核相同行权价
+                        </label>
+                    </div>
+                </div>
+
+                {/* Offline Record / Replay Section */}
+                <div className="bg-slate-950 p-5 rounded-xl border border-slate-800 shadow-inner">
+                    <label className="block text-sm font-bold text-slate-300 mb-3 flex items-center gap-2">
+                       <span className="w-2 h-2 rounded-full bg-rose-500"></span>
+                       离线录制 / 回放 (Record & Replay)
+                    </label>
+                    <div className="flex flex-col gap-3 text-sm">
+                        <label className="flex items-center gap-2 text-slate-400">
+                            <input 
+                                type="checkbox" 
+                                checked={recordMode}
+                                onChange={(e) => handleToggleRecordMode(e.target.checked)}
+                            />
+                            <Record size={14} weight={recordMode ? "fill" : "regular"} className={recordMode ? "text-rose-500" : ""} />
+                            录制模式: 每次获取数据时保存原始响应为回放会话
+                        </label>
+                        <select 
+                            value={replaySession?.id || ""}
+                            onChange={(e) => handleSelectReplay(e.target.value)}
+                            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-white outline-none focus:border-rose-500"
+                        >
+                            <option value="">不回放 (实时数据)</option>
+                            {recordedSessions.map(s => (
+                                <option key={s.id} value={s.id}>
+                                    {s.label} · {new Date(s.recordedAt).toLocaleString()} · {s.entries.length} 条响应
+                                </option>
+                            ))}
+                        </select>
+                        {replaySession && replaySelection && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-slate-400 text-xs">模拟时间 (As of)</span>
+                                <input 
+                                    type="datetime-local"
+                                    value={toDateTimeInput(replaySelection.asOf)}
+                                    onChange={(e) => handleChangeAsOf(e.target.value)}
+                                    className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white text-xs outline-none focus:border-rose-500"
+                                />
+                                <button 
+                                    onClick={() => handleChangeAsOf(toDateTimeInput(replaySession.recordedAt))}
+                                    className="px-2 py-1 text-xs rounded border border-slate-700 text-slate-400 hover:text-white"
+                                >
+                                    重置为录制时间
+                                </button>
+                                <button 
+                                    onClick={() => downloadSession(replaySession)}
+                                    className="px-2 py-1 text-xs rounded border border-slate-700 text-slate-400 hover:text-white flex items-center gap-1"
+                                >
+                                    <DownloadSimple size={12} /> 导出 JSON
+                                </button>
+                                <button 
+                                    onClick={() => handleDeleteRecording(replaySession.id)}
+                                    className="px-2 py-1 text-xs rounded border border-slate-700 text-slate-400 hover:text-red-400 flex items-center gap-1"
+                                >
+                                    <Trash size={12} /> 删除
+                                </button>
+                            </div>
+                        )}
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer hover:text-white w-fit">
+                            <UploadSimple size={14} /> 导入录制文件 (JSON)
+                            <input 
+                                type="file" 
+                                accept="application/json,.json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) handleImportRecording(file);
+                                    e.target.value = "";
+                                }}
+                            />
+                        </label>
+                    </div>
+                    <div className="mt-3 text-xs text-slate-500">
+                       回放时所有请求都从录制文件返回，不需要 API Key 或网络；时钟固定在模拟时间，DTE、到期日列表和目标行权价都按该时间计算。
+                    </div>
+                </div>
+            </div>
+            
+            <div className="p-6 border-t border-slate-800 flex justify-end bg-slate-900 rounded-b-2xl">
+               <button 
+                  onClick={onClose}
+                  className="px-6 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-semibold transition-colors shadow-lg shadow-emerald-900/20"
+               >
+                  保存并关闭
+               </button>
+            </div>
+       </div>
+    </div>
+  );
+};
@@ -1,26 +1,75 @@
 import React from 'react';
-import { VolatilityMetrics } from '../types.ts';
-import { Gauge, Info, ArrowUpRight, ArrowDownRight, Minus } from '@phosphor-icons/react';
+import { IvObservation, RealizedVolPoint, VolatilityMetrics } from '../types.ts';
+import { calculateIvStats, MIN_IV_HISTORY_DAYS } from '../utils/calculations.ts';
+import { Gauge, Info, ArrowUpRight, ArrowDownRight, Minus, ChartLine, ClockCounterClockwise } from '@phosphor-icons/react';
+
+interface IvHistorySeries {
+    label: string;
+    observations: IvObservation[]; // Oldest first, decimal
+    current?: number;              // Latest reading, decimal
+}
 
 interface VolatilityCardProps {
     metrics: VolatilityMetrics | null;
     isLoading: boolean;
+    realized?: RealizedVolPoint[] | null; // Trailing HV windows from daily aggregates
+    chainIv?: number;                     // ATM IV of the loaded chain (decimal)
+    history?: IvHistorySeries[];          // Local IV history (services/ivHistory)
 }
 
-export const VolatilityCard: React.FC<VolatilityCardProps> = ({ metrics, isLoading }) => {
-    
-    if (isLoading) {
-        return (
-            <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 animate-pulse h-[140px]">
-                <div className="h-4 w-32 bg-slate-800 rounded mb-4"></div>
-                <div className="h-8 w-full bg-slate-800 rounded mb-2"></div>
-                <div className="h-4 w-2/3 bg-slate-800 rounded"></div>
-            </div>
-        );
-    }
+// IV − HV premium is measured against this window (falls back to the nearest available)
+const PREMIUM_WINDOW = 20;
+
+// Vol points of IV over HV at which selling counts as rich
+const RICH_PREMIUM = 3;
+
+// Variance premium signal: positive means options price more movement than the underlying has shown
+const describePremium = (premium: number): { label: string; className: string } =>
+    premium >= RICH_PREMIUM ? { label: '卖方溢价丰厚', className: 'text-emerald-400 bg-emerald-900/20 border-emerald-800' }
+    : premium >= 0 ? { label: '溢价偏薄', className: 'text-yellow-400 bg-yellow-900/20 border-yellow-800' }
+    : { label: 'IV 低于实际波动，卖方不利', className: 'text-red-400 bg-red-900/20 border-red-800' };
+
+const RealizedVolSection: React.FC<{ realized: RealizedVolPoint[]; chainIv?: number }> = ({ realized, chainIv }) => {
+    const reference = realized.reduce((best, p) =>
+        Math.abs(p.days - PREMIUM_WINDOW) < Math.abs(best.days - PREMIUM_WINDOW) ? p : best);
+    const premium = chainIv !== undefined ? (chainIv - reference.sigma) * 100 : undefined;
+    const signal = premium !== undefined ? describePremium(premium) : null;
 
-    if (!metrics) return null;
+    return (
+        <div className="relative z-10">
+            <div className="flex justify-between items-center mb-2 gap-2 flex-wrap">
+                <h4 className="text-slate-300 text-sm font-bold flex items-center gap-2">
+                    <ChartLine size={16} className="text-blue-400"/>
+                    历史波动率 (Realized) vs 期权链 IV
+                </h4>
+                {signal && (
+                    <span className={`text-xs font-bold px-2 py-0.5 rounded border ${signal.className}`}>
+                        {signal.label}
+                    </span>
+                )}
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-center font-mono">
+                {realized.map(p => (
+                    <div key={p.days} className={`rounded-lg border px-2 py-1.5 ${p === reference ? 'border-slate-600 bg-slate-800/60' : 'border-slate-800 bg-slate-900/60'}`}>
+                        <div className="text-[10px] text-slate-500">HV{p.days}</div>
+                        <div className="text-slate-200 font-bold">{(p.sigma * 100).toFixed(1)}%</div>
+                    </div>
+                ))}
+                <div className="rounded-lg border border-purple-900/60 bg-purple-900/20 px-2 py-1.5">
+                    <div className="text-[10px] text-purple-300/70">ATM IV</div>
+                    <div className="text-purple-200 font-bold">{chainIv !== undefined ? `${(chainIv * 100).toFixed(1)}%` : '—'}</div>
+                </div>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+                {premium !== undefined
+                    ? <>IV − HV{reference.days} = <span className={`font-mono font-bold ${premium >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{premium >= 0 ? '+' : ''}{premium.toFixed(1)}</span> 个波动率点 · 期权定价的波动{premium >= 0 ? '高于' : '低于'}标的近期实际波动</>
+                    : '获取期权链后显示 IV − HV 溢价'}
+            </p>
+        </div>
+    );
+};
 
+const VxnSection: React.FC<{ metrics: VolatilityMetrics }> = ({ metrics }) => {
     // Calculate position of the marker (0-100%)
     const markerPosition = Math.min(100, Math.max(0, metrics.rank));
     
@@ -29,8 +78,11 @@ export const VolatilityCard: React.FC<VolatilityCardProps> = ({ metrics, isLoadi
     if (metrics.rank > 50) SignalIcon = ArrowUpRight;
     if (metrics.rank < 20) SignalIcon = ArrowDownRight;
 
+    // Range from the local history (N observed days) or the searched 52-week high / low
+    const rangeLabel = metrics.rankSource === 'history' ? `${metrics.historyDays}日` : '52周';
+
     return (
-        <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-xl p-6 shadow-lg relative overflow-hidden">
+        <>
             {/* Background Decoration */}
             <div className={`absolute top-0 right-0 w-32 h-32 rounded-full blur-3xl opacity-10 pointer-events-none ${metrics.statusColor === 'emerald' ? 'bg-emerald-500' : metrics.statusColor === 'red' ? 'bg-red-500' : 'bg-yellow-500'}`}></div>
             
@@ -60,9 +112,9 @@ export const VolatilityCard: React.FC<VolatilityCardProps> = ({ metrics, isLoadi
             {/* Main Bar Visualization */}
             <div className="relative z-10">
                 <div className="flex justify-between text-xs text-slate-500 font-mono mb-1">
-                   <span>52周低: {metrics.lowIV.toFixed(2)}</span>
+                   <span>{rangeLabel}低: {metrics.lowIV.toFixed(2)}</span>
                    <span className="text-white font-bold">当前: {metrics.currentIV.toFixed(2)}</span>
-                   <span>52周高: {metrics.highIV.toFixed(2)}</span>
+                   <span>{rangeLabel}高: {metrics.highIV.toFixed(2)}</span>
                 </div>
                 
                 <div className="h-4 bg-slate-800 rounded-full overflow-hidden relative">
@@ -80,10 +132,116 @@ export const VolatilityCard: React.FC<VolatilityCardProps> = ({ metrics, isLoadi
                 
                 <div className="flex justify-between mt-2 text-xs">
                     <div className="text-red-400/60">IV Rank &lt; 20</div>
-                    <div className="text-slate-600">IV Rank: <span className="text-white font-mono">{metrics.rank.toFixed(0)}</span></div>
+                    <div className="text-slate-600">
+                        IV Rank: <span className="text-white font-mono">{metrics.rank.toFixed(0)}</span>
+                        {metrics.percentile !== undefined && <> · 百分位: <span className="text-white font-mono">{metrics.percentile.toFixed(0)}</span></>}
+                    </div>
                     <div className="text-emerald-400/60">IV Rank &gt; 50</div>
                 </div>
             </div>
+
+            {metrics.rangeEstimated && metrics.rankSource !== 'history' && (
+                <div className="relative z-10 mt-3 text-[11px] text-yellow-400/80 flex items-start gap-1">
+                    <Info size={12} className="shrink-0 mt-0.5"/>
+                    搜索结果缺少 52 周区间，IV Rank 按 15–35 占位估算；本地历史满 {MIN_IV_HISTORY_DAYS} 天后改用实测区间
+                </div>
+            )}
+
+            {metrics.warnings && metrics.warnings.length > 0 && (
+                <div className="relative z-10 mt-3 text-[11px] text-yellow-400/80 flex items-start gap-1">
+                    <Info size={12} className="shrink-0 mt-0.5"/>
+                    {metrics.warnings.join('；')}
+                </div>
+            )}
+        </>
+    );
+};
+
+const SPARK_WIDTH = 140;
+const SPARK_HEIGHT = 28;
+
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+    const low = Math.min(...values);
+    const range = Math.max(...values) - low || 1;
+    const points = values.map((v, i) => [
+        (i / (values.length - 1)) * SPARK_WIDTH,
+        SPARK_HEIGHT - 2 - ((v - low) / range) * (SPARK_HEIGHT - 4),
+    ]);
+    const [lastX, lastY] = points[points.length - 1];
+    return (
+        <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} className="shrink-0">
+            <polyline points={points.map(p => p.join(',')).join(' ')} fill="none" stroke="#a78bfa" strokeWidth={1.5} strokeLinejoin="round" />
+            <circle cx={lastX} cy={lastY} r={2.5} fill="#fff" />
+        </svg>
+    );
+};
+
+const IvHistorySection: React.FC<{ history: IvHistorySeries[] }> = ({ history }) => (
+    <div className="relative z-10">
+        <h4 className="text-slate-300 text-sm font-bold flex items-center gap-2 mb-2">
+            <ClockCounterClockwise size={16} className="text-purple-400"/>
+            IV 历史 (本地记录)
+        </h4>
+        <div className="space-y-2">
+            {history.filter(s => s.observations.length >= 2).map(series => {
+                const values = series.observations.map(o => o.iv);
+                const stats = calculateIvStats(values, series.current ?? values[values.length - 1]);
+                const seeded = series.observations.filter(o => o.seeded).length;
+                return (
+                    <div key={series.label} className="flex items-center gap-3 text-xs">
+                        <span className="w-32 text-slate-400 truncate">{series.label}</span>
+                        <Sparkline values={values} />
+                        <span className="font-mono text-slate-400">
+                            {stats
+                                ? <>Rank <span className="text-white">{stats.rank.toFixed(0)}</span> · 百分位 <span className="text-white">{stats.percentile.toFixed(0)}</span></>
+                                : <span className="text-slate-500">积累中 {values.length}/{MIN_IV_HISTORY_DAYS} 天</span>}
+                        </span>
+                        <span className="text-slate-600 ml-auto">
+                            {series.observations.length} 天{seeded > 0 && ` (含 ${seeded} 天回填)`}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+);
+
+export const VolatilityCard: React.FC<VolatilityCardProps> = ({ metrics, isLoading, realized, chainIv, history }) => {
+    const hasRealized = !!realized && realized.length > 0;
+    const hasHistory = !!history && history.some(s => s.observations.length >= 2);
+    
+    if (isLoading && !hasRealized && !hasHistory) {
+        return (
+            <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 animate-pulse h-[140px]">
+                <div className="h-4 w-32 bg-slate-800 rounded mb-4"></div>
+                <div className="h-8 w-full bg-slate-800 rounded mb-2"></div>
+                <div className="h-4 w-2/3 bg-slate-800 rounded"></div>
+            </div>
+        );
+    }
+
+    if (!metrics && !hasRealized && !hasHistory) return null;
+
+    return (
+        <div className="bg-gradient-to-br from-slate-900 to-slate-950 border border-slate-800 rounded-xl p-6 shadow-lg relative overflow-hidden">
+            {metrics ? <VxnSection metrics={metrics} /> : isLoading && (
+                <div className="animate-pulse mb-2">
+                    <div className="h-4 w-32 bg-slate-800 rounded mb-3"></div>
+                    <div className="h-4 w-full bg-slate-800 rounded"></div>
+                </div>
+            )}
+
+            {hasRealized && (
+                <div className={metrics || isLoading ? 'mt-5 pt-4 border-t border-slate-800' : ''}>
+                    <RealizedVolSection realized={realized!} chainIv={chainIv} />
+                </div>
+            )}
+
+            {hasHistory && (
+                <div className={metrics || isLoading || hasRealized ? 'mt-5 pt-4 border-t border-slate-800' : ''}>
+                    <IvHistorySection history={history!} />
+                </div>
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
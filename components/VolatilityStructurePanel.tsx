@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine
+} from 'recharts';
+import { VolatilityStructure } from '../types.ts';
+import { formatDte, summarizeSkew } from '../utils/calculations.ts';
+import { MAX_TERM_EXPIRATIONS } from '../services/volStructure.ts';
+import { CircleNotch, Waveform } from '@phosphor-icons/react';
+
+interface VolatilityStructurePanelProps {
+  structure: VolatilityStructure | null;
+  isLoading: boolean;
+  progress: string;
+  canLoad: boolean; // A chain is loaded to build on
+  onLoad: () => void;
+}
+
+// 25Δ put over ATM by at least this many vol points: OTM puts are priced rich
+const RICH_PUT_SKEW = 5;
+
+type SkewAxis = 'strike' | 'delta';
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: 8, fontSize: 12 };
+
+// Call-equivalent delta (1 → 0 as the strike rises), so both sides share one axis
+const callDelta = (type: 'put' | 'call', delta: number) => type === 'put' ? 1 + delta : delta;
+
+export const VolatilityStructurePanel: React.FC<VolatilityStructurePanelProps> = ({ structure, isLoading, progress, canLoad, onLoad }) => {
+  const [axis, setAxis] = useState<SkewAxis>('strike');
+
+  const summary = structure ? summarizeSkew(structure.skew, structure.underlyingPrice) : null;
+  const richPuts = summary?.putSkew !== undefined && summary.putSkew >= RICH_PUT_SKEW;
+
+  // One row per x value; puts and calls in separate columns so each draws its own line
+  const skewRows = new Map<number, { x: number; put?: number; call?: number }>();
+  (structure?.skew || [])
+    .filter(p => axis === 'strike' || p.delta !== undefined)
+    .forEach(p => {
+      const x = axis === 'strike' ? p.strike : Number(callDelta(p.type, p.delta!).toFixed(3));
+      const row = skewRows.get(x) || { x };
+      row[p.type] = Number((p.iv * 100).toFixed(2));
+      skewRows.set(x, row);
+    });
+  const skewData = [...skewRows.values()].sort((a, b) => a.x - b.x);
+
+  const termData = structure ? structure.term.map(t => ({
+    dte: Number(t.daysToExpiration.toFixed(2)),
+    iv: Number((t.atmIv * 100).toFixed(2)),
+    expiration: t.expiration,
+  })) : [];
+  const selected = structure?.term.find(t => t.expiration === structure.expiration);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-4">
+      <div className="flex justify-between items-start gap-2 flex-wrap mb-3">
+        <div>
+          <h3 className="text-slate-200 font-bold flex items-center gap-2">
+            <Waveform size={20} className="text-blue-400" />
+            波动率结构 (Skew & Term)
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {structure
+              ? `${structure.ticker} · ${structure.expiration} · ${structure.providerLabel}`
+              : '所选到期日的 Put / Call 隐含波动率偏斜，及各到期日 ATM IV 期限结构'}
+          </p>
+        </div>
+        <button
+          onClick={onLoad}
+          disabled={!canLoad || isLoading}
+          title={canLoad ? `额外获取对侧期权链及最多 ${MAX_TERM_EXPIRATIONS} 个到期日` : '请先获取期权链'}
+          className="px-3 py-1 rounded border bg-slate-950 border-blue-800 text-blue-400 hover:bg-blue-900/20 transition-colors flex items-center gap-1 text-xs disabled:opacity-50"
+        >
+          {isLoading ? <><CircleNotch className="animate-spin" size={12} /> {progress}</> : structure ? '刷新' : '加载波动率结构'}
+        </button>
+      </div>
+
+      {structure && summary && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-3 text-xs text-slate-400 font-mono">
+            {summary.atmIv !== undefined && <span>ATM {(summary.atmIv * 100).toFixed(1)}%</span>}
+            {summary.put25Iv !== undefined && <span>25Δ Put {(summary.put25Iv * 100).toFixed(1)}%</span>}
+            {summary.call25Iv !== undefined && <span>25Δ Call {(summary.call25Iv * 100).toFixed(1)}%</span>}
+            {summary.putSkew !== undefined && (
+              <span className={richPuts ? 'text-emerald-400 font-bold' : ''}>
+                Put 偏斜 {summary.putSkew >= 0 ? '+' : ''}{summary.putSkew.toFixed(1)} 点
+              </span>
+            )}
+            {summary.riskReversal !== undefined && <span>RR {summary.riskReversal >= 0 ? '+' : ''}{summary.riskReversal.toFixed(1)} 点</span>}
+            {richPuts && (
+              <span className="font-sans text-emerald-400 bg-emerald-900/20 border border-emerald-800 px-2 py-0.5 rounded">
+                价外 Put 偏贵，卖 Put 溢价较高
+              </span>
+            )}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <div className="flex items-center justify-between text-xs text-slate-500 mb-1">
+                <span>偏斜 (IV vs {axis === 'strike' ? '行权价' : 'Delta'})</span>
+                <div className="flex gap-1">
+                  {(['strike', 'delta'] as const).map(a => (
+                    <button
+                      key={a}
+                      onClick={() => setAxis(a)}
+                      className={`px-2 py-0.5 rounded border ${axis === a ? 'border-blue-700 text-blue-300 bg-blue-900/20' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+                    >
+                      {a === 'strike' ? '行权价' : 'Delta'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="h-[200px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={skewData} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                    <XAxis
+                      dataKey="x"
+                      type="number"
+                      domain={axis === 'strike' ? ['dataMin', 'dataMax'] : [0, 1]}
+                      reversed={axis === 'delta'}
+                      stroke="#94a3b8"
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(v) => axis === 'strike' ? `$${v}` : `${Math.round(v * 100)}Δ`}
+                    />
+                    <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} tickFormatter={(v) => `${v}%`} domain={['auto', 'auto']} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      labelFormatter={(v) => axis === 'strike' ? `行权价 $${v}` : `Call 等效 ${(Number(v) * 100).toFixed(0)}Δ`}
+                      formatter={(v: number, name: string) => [`${v}%`, name === 'put' ? 'Put IV' : 'Call IV']}
+                    />
+                    <Legend verticalAlign="top" height={24} formatter={(name) => name === 'put' ? 'Put IV' : 'Call IV'} />
+                    {axis === 'strike' && <ReferenceLine x={structure.underlyingPrice} stroke="#64748b" strokeDasharray="4 4" />}
+                    <Line type="monotone" dataKey="put" stroke="#f87171" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+                    <Line type="monotone" dataKey="call" stroke="#a78bfa" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div>
+              <div className="text-xs text-slate-500 mb-1">期限结构 (ATM IV vs 剩余天数)</div>
+              <div className="h-[200px]">
+                {termData.length > 0 ? (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={termData} margin={{ top: 29, right: 10, left: -10, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                      <XAxis dataKey="dte" type="number" domain={[0, 'dataMax']} stroke="#94a3b8" tick={{ fontSize: 10 }} tickFormatter={(v) => `${Math.round(v)}d`} />
+                      <YAxis stroke="#94a3b8" tick={{ fontSize: 10 }} tickFormatter={(v) => `${v}%`} domain={['auto', 'auto']} />
+                      <Tooltip
+                        contentStyle={TOOLTIP_STYLE}
+                        labelFormatter={(v, payload) => `${payload?.[0]?.payload?.expiration ?? ''} (${formatDte(Number(v))})`}
+                        formatter={(v: number) => [`${v}%`, 'ATM IV']}
+                      />
+                      {selected && <ReferenceLine x={Number(selected.daysToExpiration.toFixed(2))} stroke="#64748b" strokeDasharray="4 4" />}
+                      <Line type="monotone" dataKey="iv" stroke="#60a5fa" strokeWidth={2} dot={{ r: 3 }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="h-full flex items-center justify-center text-xs text-slate-600">没有可用的到期日 IV</div>
+                )}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -9,15 +9,23 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
-  Cell
+  Cell,
+  ReferenceArea,
+  ReferenceLine
 } from 'recharts';
-import { OptionRow } from '../types.ts';
+import { FillAssumption, OptionRow, StraddleMove } from '../types.ts';
+import { annualizeRoi, resolveFillPrice, DEFAULT_FILL_ASSUMPTION } from '../utils/calculations.ts';
 
 interface YieldChartProps {
   data: OptionRow[];
   currentPrice: number;
   strategy?: 'CSP' | 'PCS' | 'CC';
   spreadWidth?: number;
+  legCandidates?: OptionRow[]; // Full chain for long-leg lookup when `data` is filtered
+  fill?: FillAssumption;
+  expectedMove?: StraddleMove | null;               // Straddle-implied band
+  targetLevels?: { label: string; strike: number }[]; // Formula (σ-based) levels, for comparison
+  multiplier?: number; // Shares per contract
 }
 
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -42,7 +50,12 @@ export const YieldChart: React.FC<YieldChartProps> = ({
     data, 
     currentPrice, 
     strategy = 'CSP',
-    spreadWidth = 5 
+    spreadWidth = 5,
+    legCandidates,
+    fill = DEFAULT_FILL_ASSUMPTION,
+    expectedMove,
+    targetLevels = [],
+    multiplier = 100
 }) => {
   // Sort data for chart (X-Axis Order)
   // Puts: Low -> High strike (so chart goes Left to Right)
@@ -60,11 +73,11 @@ export const YieldChart: React.FC<YieldChartProps> = ({
           // Since chart is sorted Ascending, we look for a strike smaller than current
           const targetStrike = row.strike - spreadWidth;
           
-          // Find match in the whole sorted dataset
+          // Find match in the whole chain, not just the visible rows
           let bestMatch = null;
           let minDiff = Number.MAX_VALUE;
           
-          sortedData.forEach(candidate => {
+          (legCandidates || data).forEach(candidate => {
              if (candidate.strike < row.strike) {
                  const diff = Math.abs(candidate.strike - targetStrike);
                  if (diff < minDiff) {
@@ -77,12 +90,13 @@ export const YieldChart: React.FC<YieldChartProps> = ({
           const longLeg = bestMatch;
           
           if (longLeg) {
-             netCredit = row.premium - longLeg.premium;
+             // Long leg is bought, so it fills on the ask side of the same assumption
+             netCredit = row.premium - (resolveFillPrice(longLeg, fill, 'buy') ?? longLeg.premium);
              const actualWidth = row.strike - longLeg.strike;
-             const risk = (actualWidth * 100) - (netCredit * 100);
+             const risk = (actualWidth * multiplier) - (netCredit * multiplier);
              if (risk > 0) {
-                 const roi = ((netCredit * 100) / risk) * 100;
-                 spreadAnnReturn = roi * (365 / row.daysToExpiration);
+                 const roi = ((netCredit * multiplier) / risk) * 100;
+                 spreadAnnReturn = annualizeRoi(roi, row.daysToExpiration, row.hoursToClose);
              }
           }
       } 
@@ -102,6 +116,15 @@ export const YieldChart: React.FC<YieldChartProps> = ({
   const moneyKey = showNetCredit ? 'netCredit' : 'premium';
   const moneyName = showNetCredit ? '净权利金 (Net Credit)' : '权利金 (Premium)';
 
+  // The strike axis is categorical, so overlays snap to the nearest plotted strike.
+  // Levels beyond the plotted range are clamped (band) or dropped (lines).
+  const strikes = chartData.map(d => d.strike);
+  const nearestStrike = (value: number) => strikes.reduce((a, b) => Math.abs(b - value) < Math.abs(a - value) ? b : a, strikes[0]);
+  const inRange = (value: number) => strikes.length > 0 && value >= strikes[0] && value <= strikes[strikes.length - 1];
+  const band = expectedMove && strikes.length > 1
+    ? { x1: nearestStrike(Math.max(expectedMove.lower, strikes[0])), x2: nearestStrike(Math.min(expectedMove.upper, strikes[strikes.length - 1])) }
+    : null;
+
   return (
     <div className="h-[400px] w-full bg-slate-900/50 p-4 rounded-xl border border-slate-800">
       <h3 className="text-lg font-semibold text-slate-200 mb-4">
@@ -131,6 +154,29 @@ export const YieldChart: React.FC<YieldChartProps> = ({
           />
           <Tooltip content={<CustomTooltip />} />
           <Legend verticalAlign="top" height={36}/>
+          {band && band.x1 !== band.x2 && (
+            <ReferenceArea 
+              yAxisId="left" 
+              x1={band.x1} 
+              x2={band.x2} 
+              fill="#f59e0b" 
+              fillOpacity={0.08} 
+              stroke="#f59e0b" 
+              strokeOpacity={0.4} 
+              strokeDasharray="4 4"
+              label={{ value: `跨式隐含 ±$${expectedMove!.move.toFixed(2)}`, position: 'insideTop', fill: '#fbbf24', fontSize: 11 }}
+            />
+          )}
+          {targetLevels.filter(t => inRange(t.strike)).map(t => (
+            <ReferenceLine 
+              key={t.label} 
+              yAxisId="left" 
+              x={nearestStrike(t.strike)} 
+              stroke="#c084fc" 
+              strokeDasharray="2 4" 
+              label={{ value: t.label, position: 'insideBottomRight', fill: '#c084fc', fontSize: 10 }}
+            />
+          ))}
           <Bar 
             yAxisId="right" 
             dataKey={moneyKey} 
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { SurfaceCell, YieldSurface } from '../types.ts';
+import { formatCurrency, formatDte } from '../utils/calculations.ts';
+import { Star } from '@phosphor-icons/react';
+
+interface YieldHeatmapProps {
+  surface: YieldSurface;
+}
+
+type HeatmapMetric = 'annualizedReturn' | 'delta' | 'pop';
+
+const METRICS: { key: HeatmapMetric; label: string }[] = [
+  { key: 'annualizedReturn', label: '年化' },
+  { key: 'delta', label: 'Delta' },
+  { key: 'pop', label: 'PoP' },
+];
+
+const metricValue = (cell: SurfaceCell, metric: HeatmapMetric): number | undefined => {
+  if (metric === 'delta') return cell.delta !== undefined ? Math.abs(cell.delta) : undefined;
+  return cell[metric];
+};
+
+const formatMetric = (value: number, metric: HeatmapMetric): string => {
+  if (metric === 'delta') return value.toFixed(2);
+  return `${value.toFixed(metric === 'pop' ? 0 : 1)}%`;
+};
+
+export const YieldHeatmap: React.FC<YieldHeatmapProps> = ({ surface }) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('annualizedReturn');
+
+  const lookup = new Map<string, SurfaceCell>();
+  surface.cells.forEach(c => lookup.set(`${c.strike}|${c.expiration}`, c));
+
+  const values = surface.cells.map(c => metricValue(c, metric)).filter((v): v is number => v !== undefined);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  // Best point on the term structure: highest annualized return
+  const best = surface.cells.reduce((prev, curr) => curr.annualizedReturn > prev.annualizedReturn ? curr : prev);
+
+  // Low delta is "good" for a seller, so invert the color ramp for delta
+  const intensity = (value: number) => {
+    const t = max > min ? (value - min) / (max - min) : 0.5;
+    return metric === 'delta' ? 1 - t : t;
+  };
+
+  return (
+    <div className="h-[400px] w-full bg-slate-900/50 p-4 rounded-xl border border-slate-800 flex flex-col">
+      <div className="flex justify-between items-start mb-3 gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">收益率曲面 (Yield Surface)</h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            最佳: <span className="text-emerald-400 font-mono">{formatCurrency(best.strike)} @ {best.expiration}</span> ({best.annualizedReturn.toFixed(1)}%)
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {METRICS.map(m => (
+            <button
+              key={m.key}
+              onClick={() => setMetric(m.key)}
+              className={`px-2 py-1 text-xs rounded border transition-colors ${metric === m.key ? 'bg-emerald-900/30 border-emerald-700 text-emerald-300' : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="text-[11px] font-mono border-separate border-spacing-0.5">
+          <thead className="sticky top-0 bg-slate-900 z-10">
+            <tr>
+              <th className="px-2 py-1 text-left text-slate-500 sticky left-0 bg-slate-900">Strike</th>
+              {surface.expirations.map(exp => {
+                const dte = surface.cells.find(c => c.expiration === exp)?.daysToExpiration;
+                return (
+                  <th key={exp} className="px-2 py-1 text-slate-400 font-normal whitespace-nowrap">
+                    {exp.slice(5)}
+                    <div className="text-[9px] text-slate-600">{dte !== undefined && formatDte(dte)}</div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {surface.strikes.map(strike => (
+              <tr key={strike}>
+                <td className="px-2 py-1 text-slate-300 sticky left-0 bg-slate-900">${strike}</td>
+                {surface.expirations.map(exp => {
+                  const cell = lookup.get(`${strike}|${exp}`);
+                  const value = cell ? metricValue(cell, metric) : undefined;
+                  if (!cell || value === undefined) {
+                    return <td key={exp} className="px-2 py-1 text-center text-slate-700">·</td>;
+                  }
+                  const isBest = cell === best;
+                  return (
+                    <td
+                      key={exp}
+                      className={`px-2 py-1 text-center rounded text-slate-100 ${isBest ? 'ring-1 ring-yellow-400' : ''}`}
+                      style={{ backgroundColor: `rgba(16, 185, 129, ${0.08 + intensity(value) * 0.6})` }}
+                      title={`$${strike} @ ${exp} · 年化 ${cell.annualizedReturn.toFixed(2)}% · 权利金 ${formatCurrency(cell.premium)}${cell.delta !== undefined ? ` · Δ ${cell.delta.toFixed(2)}` : ''}${cell.pop !== undefined ? ` · PoP ${cell.pop.toFixed(0)}%` : ''}`}
+                    >
+                      {isBest && <Star size={8} weight="fill" className="inline text-yellow-400 mr-0.5" />}
+                      {formatMetric(value, metric)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-[10px] text-slate-600 mt-2">
+        数据源: {surface.providerLabel} · {surface.ticker} {surface.contractType.toUpperCase()} · 标的 {formatCurrency(surface.underlyingPrice)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { useState, useEffect, useRef } from 'react';
+import { planNextRefresh, DEFAULT_REFRESH_INTERVAL } from '../utils/refreshSchedule.ts';
+import { now } from '../utils/clock.ts';
+
+export interface AutoRefreshSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+}
+
+export interface AutoRefreshInput {
+  forcedIntervalMinutes?: number; // Polls at this interval even when auto-refresh is off (0DTE)
+  blocked: boolean;               // Nothing to refresh: no loaded chain, replay, or a live stream
+  realtime: boolean;              // Whether the answering provider quotes live
+  lastUpdated?: string;           // "As of" of the shown data; each new value re-plans the timer
+  onRefresh: () => void;
+}
+
+// Market-hours polling. Each timer fires once and re-plans: refreshes during the session
+// (less often for delayed sources), sleeps through nights, weekends and holidays.
+export const useAutoRefresh = ({ forcedIntervalMinutes, blocked, realtime, lastUpdated, onRefresh }: AutoRefreshInput) => {
+  const [autoRefresh, setAutoRefresh] = useState<AutoRefreshSettings>({ enabled: false, intervalMinutes: DEFAULT_REFRESH_INTERVAL });
+  const [nextRefresh, setNextRefresh] = useState<{ at: string; reason: 'session' | 'delayed' | 'closed' } | null>(null);
+  const [refreshTick, setRefreshTick] = useState(0);
+  const [, setClockTick] = useState(0); // Re-renders the staleness indicator as time passes
+
+  useEffect(() => {
+    const savedAutoRefresh = localStorage.getItem("auto_refresh");
+    if (savedAutoRefresh) {
+        try {
+            setAutoRefresh(prev => ({ ...prev, ...JSON.parse(savedAutoRefresh) }));
+        } catch (e) {
+            console.warn("Invalid auto refresh settings, ignoring", e);
+        }
+    }
+  }, []);
+
+  const intervalMinutes = forcedIntervalMinutes ?? autoRefresh.intervalMinutes;
+  const active = (autoRefresh.enabled || forcedIntervalMinutes !== undefined) && !blocked;
+  const refreshRef = useRef(onRefresh);
+  refreshRef.current = onRefresh;
+
+  useEffect(() => {
+    if (!active) {
+        setNextRefresh(null);
+        return;
+    }
+    const plan = planNextRefresh(intervalMinutes, realtime);
+    setNextRefresh({ at: new Date(now().getTime() + plan.delayMs).toISOString(), reason: plan.reason });
+    const timer = setTimeout(() => {
+        if (plan.refresh) refreshRef.current();
+        setRefreshTick(t => t + 1);
+    }, plan.delayMs);
+    return () => clearTimeout(timer);
+  }, [active, intervalMinutes, realtime, lastUpdated, refreshTick]);
+
+  useEffect(() => {
+    if (!lastUpdated) return;
+    const timer = setInterval(() => setClockTick(t => t + 1), 30 * 1000);
+    return () => clearInterval(timer);
+  }, [!!lastUpdated]);
+
+  const handleChangeAutoRefresh = (patch: Partial<AutoRefreshSettings>) => {
+    const next = { ...autoRefresh, ...patch };
+    setAutoRefresh(next);
+    localStorage.setItem("auto_refresh", JSON.stringify(next));
+  };
+
+  return { autoRefresh, nextRefresh, handleChangeAutoRefresh };
+};
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { ContractType, FetchStatus, FillAssumption, MarketDataProvider, MarketStatus, OptionRow, ProviderChainResult, RealizedVolPoint, RecordedSession, SigmaEstimate, SourceLink, TickerInfo, VolatilityMetrics } from '../types.ts';
+import { fetchVolatilityData } from '../services/geminiService.ts';
+import { fetchPolygonDailyCloses } from '../services/polygonService.ts';
+import { fetchFromProviderChain } from '../services/providerChain.ts';
+import { resolveProviders } from '../services/providerRegistry.ts';
+import { REPLAY_API_KEY, isRecording, startRecording, stopRecording } from '../services/recorder.ts';
+import { atmTenorBucket } from '../services/ivHistory.ts';
+import { StraddleRequest } from '../services/expectedMove.ts';
+import { CacheReport, invalidateCache, takeCacheReport, whenRevalidated } from '../services/responseCache.ts';
+import { DataServiceError, describeError } from '../services/errors.ts';
+import { atmStrikeDistance, buildOptionRows, calculateRealizedVolatility, calculateRealizedVolWindows, getAtmIv, REALIZED_VOL_LOOKBACK_DAYS, resolveSigma } from '../utils/calculations.ts';
+import { now } from '../utils/clock.ts';
+import { SettingsState } from './useSettings.ts';
+
+export interface ChainFetchInput {
+  ticker: TickerInfo;
+  expiration: string;
+  contractType: ContractType;
+  settings: SettingsState;
+  replaySession: RecordedSession | null;
+  recordMode: boolean;
+  costBasis: number;
+  fill: FillAssumption;
+  // Derived features fed by each fetch
+  recordAtmIv: (symbol: string, tenor: string, iv: number) => void;
+  recordVxn: (iv: number) => void;
+  seedVxn: (polygonKey: string) => void;
+  loadMove: (provider: MarketDataProvider | undefined, request: StraddleRequest) => Promise<void>;
+  runCrossVerify: (providers: MarketDataProvider[], request: { ticker: TickerInfo; expiration: string; contractType: ContractType }, primary: ProviderChainResult) => void;
+  onReset: () => void;                              // A full fetch clears what was derived from the previous chain
+  onLoaded: () => void;                             // A full fetch returned a chain
+  onRecorded: (session: RecordedSession) => void;
+}
+
+// The loaded chain and everything fetched alongside it: provider chain walk, VXN / realized vol
+// in parallel, record mode, response cache reporting and stale-while-revalidate.
+export const useChainFetch = (input: ChainFetchInput) => {
+  const { ticker, expiration, contractType, settings, replaySession } = input;
+  const { polygonKey, geminiKey, polygonEntitlements, chainConfig, riskFreeRate, sigmaPreference, setShowSettings } = settings;
+
+  const [status, setStatus] = useState<FetchStatus>(FetchStatus.IDLE);
+  const [scanMessage, setScanMessage] = useState<string>("初始化...");
+  const [currentPrice, setCurrentPrice] = useState<number>(0);
+  const [options, setOptions] = useState<OptionRow[]>([]);
+  const [sources, setSources] = useState<SourceLink[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string>("");
+  const [errorGuidance, setErrorGuidance] = useState<ReturnType<typeof describeError> | null>(null);
+  const [dataWarnings, setDataWarnings] = useState<string[]>([]);
+  const [targetSigma, setTargetSigma] = useState<SigmaEstimate | null>(null);
+
+  // Volatility fetched alongside the chain
+  const [volMetrics, setVolMetrics] = useState<VolatilityMetrics | null>(null);
+  const [realizedVol, setRealizedVol] = useState<RealizedVolPoint[] | null>(null); // 10/20/60-day HV from Polygon aggregates
+  const [isVolLoading, setIsVolLoading] = useState(false);
+
+  // Response cache: what the last fetch was served from, and whether stale entries are being refreshed
+  const [cacheReport, setCacheReport] = useState<CacheReport | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
+
+  // When the shown data was taken, and whether the answering provider quotes live
+  const [marketStatus, setMarketStatus] = useState<MarketStatus | null>(null);
+  const [sourceRealtime, setSourceRealtime] = useState<boolean>(true);
+
+  // Keys as seen by the services: during replay the placeholder routes requests to the fixture
+  const activePolygonKey = replaySession ? REPLAY_API_KEY : polygonKey;
+  const activeGeminiKey = replaySession ? REPLAY_API_KEY : geminiKey;
+
+  const buildProviders = () => resolveProviders(chainConfig, { polygon: polygonKey, gemini: geminiKey }, replaySession);
+
+  // `silent`: re-render from freshly revalidated cache entries without clearing the current view.
+  // Silent fetches (auto-refresh ticks, revalidation) only refresh the price and the chain; VXN,
+  // realized vol, the straddle and cross-verification keep what the last full fetch loaded.
+  const fetchData = async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) {
+        setStatus(FetchStatus.LOADING);
+        setErrorMsg("");
+        setErrorGuidance(null);
+        setDataWarnings([]);
+        setSources([]);
+        setOptions([]);
+        setVolMetrics(null); // Reset Volatility
+        setRealizedVol(null);
+        setTargetSigma(null);
+        input.onReset();
+    }
+
+    const providers = buildProviders();
+
+    if (!providers.some(p => p.isConfigured())) {
+        setErrorMsg("设置提示: 请在设置中输入 API Key (Polygon 或 Gemini)。");
+        setErrorGuidance(describeError(new DataServiceError('not_configured', 'app', "No provider configured")));
+        setStatus(FetchStatus.ERROR);
+        setShowSettings(true);
+        return;
+    }
+
+    // Record mode: capture every raw response of this fetch as a replayable session
+    if (input.recordMode && !replaySession && !silent) {
+        startRecording(`${ticker.symbol} ${contractType.toUpperCase()} ${expiration}`, ticker.symbol);
+    }
+    let volPromise: Promise<VolatilityMetrics | null> = Promise.resolve(silent ? volMetrics : null);
+    let hvPromise: Promise<void> = Promise.resolve();
+    let movePromise: Promise<void> = Promise.resolve();
+    let answeredBy: string | undefined;
+    let servedPrice: number | undefined;
+
+    try {
+      // --- PARALLEL FETCH: Volatility Data (VXN Index) ---
+      // Requires Gemini Key
+      if (activeGeminiKey && !silent) {
+          setIsVolLoading(true);
+          volPromise = fetchVolatilityData(activeGeminiKey).catch(e => {
+              console.warn("Vol fetch failed", e);
+              return null;
+          });
+          volPromise.then(metrics => {
+              if (metrics) input.recordVxn(metrics.currentIV / 100);
+              setVolMetrics(metrics);
+              setIsVolLoading(false);
+          });
+      }
+
+      // --- PARALLEL FETCH: Realized Volatility (Polygon daily aggregates) ---
+      if (activePolygonKey && !silent && (replaySession || polygonEntitlements?.aggregatesYears !== 0)) {
+          hvPromise = fetchPolygonDailyCloses(activePolygonKey, ticker.symbol, REALIZED_VOL_LOOKBACK_DAYS)
+              .then(closes => setRealizedVol(calculateRealizedVolWindows(closes)))
+              .catch(e => console.warn("Realized vol fetch failed", e));
+      }
+
+      // VXN history back-fill from index bars (at most one attempt per day)
+      if (activePolygonKey && !replaySession && !silent) {
+          input.seedVxn(activePolygonKey);
+      }
+
+      // Sigma candidates for dynamic targets. VXN tracks the Nasdaq-100, so it only stands in for QQQ.
+      const sigmaInputs = {
+          preference: sigmaPreference,
+          vxn: ticker.symbol === 'QQQ' ? async () => {
+              const metrics = await volPromise;
+              return metrics ? metrics.currentIV / 100 : undefined;
+          } : undefined
+      };
+
+      // Provider chain: highest priority configured source first, falling back per chainConfig
+      const data = await fetchFromProviderChain(
+          providers,
+          { ticker, expiration, contractType, sigmaInputs },
+          chainConfig,
+          {
+              onProgress: (msg) => setScanMessage(msg),
+              onFallback: (failed, reason, next) => {
+                  setErrorMsg(`${failed.label} API 警告: ${reason}. 正在尝试切换到 ${next.label}...`);
+                  setScanMessage(`${failed.label} 连接失败，正在切换至 ${next.label}...`);
+              }
+          }
+      );
+
+      answeredBy = data.providerId;
+      servedPrice = data.currentPrice;
+      setSourceRealtime(providers.find(p => p.id === data.providerId)?.capabilities.realtime ?? false);
+
+      // Process Data
+      if (data.currentPrice) {
+        setCurrentPrice(data.currentPrice);
+      }
+
+      if (data.sources) {
+        setSources(data.sources);
+      }
+
+      // Extracted data that failed validation / plausibility checks
+      setDataWarnings(data.warnings || []);
+
+      if (data.options && Array.isArray(data.options) && data.options.length > 0) {
+        const underlying = data.currentPrice || 0;
+        const newRows = buildOptionRows(data.options, {
+          expiration,
+          contractType,
+          underlyingPrice: underlying,
+          costBasis: input.costBasis,
+          multiplier: ticker.multiplier,
+          fill: input.fill,
+          rate: riskFreeRate
+        });
+
+        setOptions(newRows);
+        setStatus(FetchStatus.SUCCESS);
+
+        const atmIv = getAtmIv(newRows, underlying, atmStrikeDistance(underlying, ticker.strikeIncrement));
+        if (atmIv) input.recordAtmIv(ticker.symbol, atmTenorBucket(newRows[0].daysToExpiration), atmIv);
+        if (errorMsg.includes("警告")) setErrorMsg("");
+
+        if (!silent) {
+            // Straddle-implied expected move: the other ATM leg comes from the same provider
+            movePromise = input.loadMove(providers.find(p => p.id === data.providerId), {
+                ticker,
+                expiration,
+                contractType,
+                underlyingPrice: underlying,
+                loaded: newRows,
+                rate: riskFreeRate
+            });
+
+            input.runCrossVerify(providers, { ticker, expiration, contractType }, data);
+
+            // Sources that didn't pick strikes by sigma still get one for display, from the loaded chain
+            setTargetSigma(data.targetSigma || await resolveSigma({
+                atm_iv: async () => getAtmIv(newRows, underlying),
+                vxn: sigmaInputs.vxn,
+                realized: activePolygonKey ? async () => calculateRealizedVolatility(await fetchPolygonDailyCloses(activePolygonKey, ticker.symbol)) : undefined
+            }, sigmaPreference));
+
+            input.onLoaded();
+        }
+      } else {
+        setStatus(FetchStatus.SUCCESS);
+        setErrorMsg("获取到价格，但未找到期权链数据。请尝试更换日期或手动输入。");
+        setErrorGuidance(describeError(new DataServiceError('empty_chain', data.providerId, "期权链为空")));
+      }
+
+    } catch (err: any) {
+      console.error(err);
+      if (silent) return; // Keep showing the cached result; the next fetch will retry
+      const info = describeError(err);
+      setErrorMsg(`${info.title}: ${err.message || "获取数据失败"}`);
+      setErrorGuidance(info);
+      setStatus(FetchStatus.ERROR);
+      if (info.openSettings) {
+          setShowSettings(true);
+      }
+      setIsVolLoading(false);
+    } finally {
+      if (isRecording()) {
+          // VXN, HV and the straddle leg run in parallel; wait for them so the session replays them too
+          await Promise.all([volPromise, hvPromise, movePromise]);
+          const session = stopRecording(answeredBy);
+          if (session) input.onRecorded(session);
+      }
+
+      await volPromise;
+      const cache = takeCacheReport();
+      setCacheReport(cache.fresh + cache.stale > 0 ? cache : null);
+      // "As of": a cache hit is only as recent as its oldest stored response
+      if (servedPrice) {
+          setMarketStatus({
+              price: servedPrice,
+              lastUpdated: cache.oldestStoredAt ? new Date(cache.oldestStoredAt).toISOString() : now().toISOString()
+          });
+      }
+      // Stale-while-revalidate: the stale entries are on screen now; redraw once the refreshes land
+      if (cache.stale > 0 && !silent) {
+          setIsRevalidating(true);
+          whenRevalidated()
+              .then(() => fetchData({ silent: true }))
+              .finally(() => setIsRevalidating(false));
+      }
+    }
+  };
+
+  // Manual refresh: ignore every cached response and fetch from the sources again
+  const forceRefresh = () => {
+    invalidateCache();
+    fetchData();
+  };
+
+  // Scheduled refresh. A tick usually lands just past the price / chain TTL; a stale hit would
+  // only show the new quotes one interval later, so those two are fetched fresh.
+  const scheduledRefresh = () => {
+    invalidateCache(['price', 'chain']);
+    fetchData({ silent: true });
+  };
+
+  return {
+    status,
+    scanMessage,
+    setScanMessage,
+    currentPrice,
+    setCurrentPrice,
+    options,
+    setOptions,
+    sources,
+    setSources,
+    errorMsg,
+    setErrorMsg,
+    errorGuidance,
+    setErrorGuidance,
+    dataWarnings,
+    setDataWarnings,
+    targetSigma,
+    volMetrics,
+    realizedVol,
+    setRealizedVol,
+    isVolLoading,
+    cacheReport,
+    isRevalidating,
+    marketStatus,
+    setMarketStatus,
+    sourceRealtime,
+    buildProviders,
+    fetchData,
+    forceRefresh,
+    scheduledRefresh,
+  };
+};
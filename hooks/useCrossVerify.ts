@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { ContractType, CrossVerification, MarketDataProvider, ProviderChainResult, SourceLink, TickerInfo } from '../types.ts';
+import { crossVerify } from '../services/crossVerify.ts';
+
+export interface CrossVerifyHooks {
+  onProgress: (msg: string) => void;
+  onSources: (sources: SourceLink[]) => void;
+  onWarning: (warning: string) => void;
+}
+
+// Cross-source verify mode: the same strikes from the other provider, diffed per strike.
+export const useCrossVerify = ({ onProgress, onSources, onWarning }: CrossVerifyHooks) => {
+  const [verifyMode, setVerifyMode] = useState<boolean>(false);
+  const [verification, setVerification] = useState<CrossVerification | null>(null);
+  const [isCrossVerifying, setIsCrossVerifying] = useState(false);
+
+  useEffect(() => {
+    setVerifyMode(localStorage.getItem("verify_mode") === "1");
+  }, []);
+
+  const handleToggleVerifyMode = (on: boolean) => {
+    setVerifyMode(on);
+    localStorage.setItem("verify_mode", on ? "1" : "0");
+    if (!on) setVerification(null);
+  };
+
+  // Second opinion on the loaded chain. Runs after the table is shown, so a slow AI search
+  // never blocks the primary result. Needs a second configured provider.
+  const runCrossVerify = async (
+    providers: MarketDataProvider[],
+    request: { ticker: TickerInfo; expiration: string; contractType: ContractType },
+    primary: ProviderChainResult
+  ) => {
+    if (!verifyMode || providers.filter(p => p.isConfigured()).length < 2) return;
+    setIsCrossVerifying(true);
+    try {
+        const result = await crossVerify(providers, request, primary, onProgress);
+        setVerification(result.verification);
+        onSources(result.sources);
+    } catch (e: any) {
+        console.warn("Cross verification failed", e);
+        onWarning(`交叉验证失败: ${e.message}`);
+    } finally {
+        setIsCrossVerifying(false);
+    }
+  };
+
+  return {
+    verifyMode,
+    verification,
+    isCrossVerifying,
+    resetVerification: () => setVerification(null),
+    handleToggleVerifyMode,
+    runCrossVerify,
+  };
+};
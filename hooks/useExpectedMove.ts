@@ -0,0 +1,20 @@
+import { useState } from 'react';
+import { MarketDataProvider, StraddleMove } from '../types.ts';
+import { loadStraddleMove, StraddleRequest } from '../services/expectedMove.ts';
+
+// Market-implied expected move (ATM straddle) for the loaded expiration
+export const useExpectedMove = () => {
+  const [straddleMove, setStraddleMove] = useState<StraddleMove | null>(null);
+
+  // Settles once the move is set; failures only leave the overlay off
+  const loadMove = (provider: MarketDataProvider | undefined, request: StraddleRequest): Promise<void> =>
+    loadStraddleMove(provider, request)
+        .then(move => setStraddleMove(move))
+        .catch(e => console.warn("Straddle move failed", e));
+
+  return {
+    straddleMove,
+    resetMove: () => setStraddleMove(null),
+    loadMove,
+  };
+};
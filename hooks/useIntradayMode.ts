@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { currentSessionDate } from '../utils/marketCalendar.ts';
+
+// 0DTE mode: targets today's session, yields per hour to the close, 1-minute refresh.
+// Only active while the selected expiration is today's session.
+export const useIntradayMode = (targetDate: string, setTargetDate: (date: string) => void) => {
+  const [intradayMode, setIntradayMode] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (localStorage.getItem("intraday_mode") === "1") {
+        setIntradayMode(true);
+        setTargetDate(currentSessionDate());
+    }
+  }, []);
+
+  const handleToggleIntradayMode = (on: boolean) => {
+    setIntradayMode(on);
+    localStorage.setItem("intraday_mode", on ? "1" : "0");
+    if (on) setTargetDate(currentSessionDate());
+  };
+
+  return {
+    intradayMode,
+    intradayActive: intradayMode && targetDate === currentSessionDate(),
+    handleToggleIntradayMode,
+  };
+};
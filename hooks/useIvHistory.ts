@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { IvObservation } from '../types.ts';
+import { ivSeriesKey, loadIvHistory, recordIvObservation, seedVxnFromPolygon } from '../services/ivHistory.ts';
+
+// Locally kept daily IV history for the selected underlying (ATM, in `tenor`'s bucket) and VXN (services/ivHistory)
+export const useIvHistory = (tickerSymbol: string, tenor: string) => {
+  const [ivHistory, setIvHistory] = useState<{ atm: IvObservation[]; vxn: IvObservation[] }>({ atm: [], vxn: [] });
+
+  useEffect(() => {
+    setIvHistory({ atm: loadIvHistory(ivSeriesKey('atm', tickerSymbol, tenor)), vxn: loadIvHistory(ivSeriesKey('vxn')) });
+  }, [tickerSymbol, tenor]);
+
+  const recordAtmIv = (symbol: string, bucket: string, iv: number) => {
+    const atm = recordIvObservation(ivSeriesKey('atm', symbol, bucket), iv);
+    if (symbol === tickerSymbol && bucket === tenor) setIvHistory(prev => ({ ...prev, atm }));
+  };
+
+  const recordVxn = (iv: number) => {
+    const vxn = recordIvObservation(ivSeriesKey('vxn'), iv);
+    setIvHistory(prev => ({ ...prev, vxn }));
+  };
+
+  // VXN history back-fill from index bars (at most one attempt per day)
+  const seedVxn = (polygonKey: string) => {
+    seedVxnFromPolygon(polygonKey).then(vxn => setIvHistory(prev => ({ ...prev, vxn })));
+  };
+
+  return { ivHistory, recordAtmIv, recordVxn, seedVxn };
+};
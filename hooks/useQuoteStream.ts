@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from 'react';
+import { FlashDirection, OptionRow, QuoteTimeframe, StreamState, StreamUpdate } from '../types.ts';
+import { openPolygonStream, occSymbol, applyStreamUpdate, POLYGON_WS_BASE, StreamRowContext } from '../services/polygonStream.ts';
+
+const STREAM_FLASH_MS = 800; // How long a streamed premium change stays highlighted
+
+export interface QuoteStreamInput {
+  apiKey: string;
+  quotes?: QuoteTimeframe;   // Probed quote timeframe of the key; picks the default cluster
+  active: boolean;           // A chain is loaded from a live source (not replay)
+  rows: OptionRow[];
+  reprice: Omit<StreamRowContext, 'delayed'>; // Current underlying, price and fill settings
+  onRows: (rows: OptionRow[]) => void;
+  onPrice: (price: number) => void; // Every update also stamps the "as of" time
+}
+
+// Live option quotes over Polygon WebSocket. Streamed quotes re-derive the loaded rows in place.
+// The socket outlives renders, so its callback goes through a ref that always sees the current
+// rows, price and fill settings.
+export const useQuoteStream = ({ apiKey, quotes, active, rows, reprice, onRows, onPrice }: QuoteStreamInput) => {
+  const [streamMode, setStreamMode] = useState<boolean>(false);
+  const [streamUrl, setStreamUrl] = useState<string>(""); // Empty: Polygon's cluster for the key's quote timeframe
+  const [streamState, setStreamState] = useState<{ state: StreamState; message?: string } | null>(null);
+  const [flashes, setFlashes] = useState<Record<string, FlashDirection>>({});
+  // One clear timer per row: a newer flash restarts its row's timer instead of being cut short by an older one
+  const flashTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    setStreamMode(localStorage.getItem("stream_mode") === "1");
+    setStreamUrl(localStorage.getItem("stream_url") || "");
+  }, []);
+
+  const handleStreamUpdate = (update: StreamUpdate) => {
+    const price = update.underlying ?? reprice.price;
+    onPrice(price);
+    const result = applyStreamUpdate(rows, update, {
+        ...reprice,
+        price,
+        delayed: !streamUrl && quotes !== 'realtime'
+    });
+    onRows(result.rows);
+    if (Object.keys(result.flashes).length > 0) {
+        setFlashes(prev => ({ ...prev, ...result.flashes }));
+        Object.keys(result.flashes).forEach(id => {
+            clearTimeout(flashTimers.current.get(id));
+            flashTimers.current.set(id, setTimeout(() => {
+                flashTimers.current.delete(id);
+                setFlashes(prev => {
+                    const { [id]: _, ...rest } = prev;
+                    return rest;
+                });
+            }, STREAM_FLASH_MS));
+        });
+    }
+  };
+  const streamUpdateRef = useRef(handleStreamUpdate);
+  streamUpdateRef.current = handleStreamUpdate;
+
+  // Subscribed contracts, as one string so re-derived rows don't resubscribe
+  const streamContracts = streamMode && active && (apiKey || streamUrl)
+    ? rows.map(row => occSymbol(reprice.underlying, row.expirationDate, row.type || 'put', row.strike)).join(',')
+    : '';
+
+  useEffect(() => {
+    if (!streamContracts) {
+        setStreamState(null);
+        return;
+    }
+    const stream = openPolygonStream({
+        apiKey,
+        baseUrl: streamUrl || POLYGON_WS_BASE[quotes === 'realtime' ? 'realtime' : 'delayed'],
+        underlying: reprice.underlying,
+        contracts: streamContracts.split(','),
+        onUpdate: (update) => streamUpdateRef.current(update),
+        onState: (state, message) => setStreamState({ state, message }),
+    });
+    return () => stream.close();
+  }, [streamContracts, apiKey, streamUrl, quotes, reprice.underlying]);
+
+  useEffect(() => () => flashTimers.current.forEach(timer => clearTimeout(timer)), []);
+
+  const handleToggleStreamMode = (on: boolean) => {
+    setStreamMode(on);
+    localStorage.setItem("stream_mode", on ? "1" : "0");
+  };
+
+  const handleChangeStreamUrl = (url: string) => {
+    setStreamUrl(url);
+    localStorage.setItem("stream_url", url);
+  };
+
+  return {
+    streamMode,
+    streamUrl,
+    streamState,
+    flashes,
+    handleToggleStreamMode,
+    handleChangeStreamUrl,
+  };
+};
+
+export type QuoteStreamState = ReturnType<typeof useQuoteStream>;
@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { RecordedSession, ReplaySelection } from '../types.ts';
+import { activateReplay, deactivateReplay, deleteRecordedSession, loadRecordedSessions, parseSessionFixture, saveRecordedSession, serializeSession } from '../services/recorder.ts';
+
+export const downloadSession = (session: RecordedSession) => {
+  const blob = new Blob([serializeSession(session)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `replay-${session.id.replace(/[:.]/g, '-')}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export interface ReplayHooks {
+  onError: (msg: string) => void;
+  onSelectTicker: (symbol: string) => void; // A session replays the underlying it was recorded for
+}
+
+// Offline record / replay: recorded sessions, the selected session and its simulated "as of" clock.
+export const useReplay = ({ onError, onSelectTicker }: ReplayHooks) => {
+  const [recordMode, setRecordMode] = useState<boolean>(false);
+  const [recordedSessions, setRecordedSessions] = useState<RecordedSession[]>([]);
+  const [replaySelection, setReplaySelection] = useState<ReplaySelection | null>(null);
+  const replaySession = replaySelection ? recordedSessions.find(s => s.id === replaySelection.sessionId) || null : null;
+
+  useEffect(() => {
+    setRecordMode(localStorage.getItem("record_mode") === "1");
+    setRecordedSessions(loadRecordedSessions());
+    const savedReplay = localStorage.getItem("replay_selection");
+    if (savedReplay) {
+        try {
+            setReplaySelection(JSON.parse(savedReplay));
+        } catch (e) {
+            console.warn("Invalid replay selection, ignoring", e);
+        }
+    }
+  }, []);
+
+  // Replay serves every provider request from the chosen session and pins the clock to its "as of"
+  useEffect(() => {
+    if (replaySession) activateReplay(replaySession, replaySelection?.asOf);
+    else deactivateReplay();
+  }, [replaySession, replaySelection?.asOf]);
+
+  const handleToggleRecordMode = (on: boolean) => {
+    setRecordMode(on);
+    localStorage.setItem("record_mode", on ? "1" : "0");
+  };
+
+  const handleSelectReplay = (sessionId: string) => {
+    const session = recordedSessions.find(s => s.id === sessionId);
+    const next = session ? { sessionId, asOf: session.recordedAt } : null;
+    setReplaySelection(next);
+    if (next) localStorage.setItem("replay_selection", JSON.stringify(next));
+    else localStorage.removeItem("replay_selection");
+    if (session) onSelectTicker(session.ticker);
+  };
+
+  const handleChangeAsOf = (value: string) => {
+    if (!replaySelection || !value) return;
+    const next = { ...replaySelection, asOf: new Date(value).toISOString() };
+    setReplaySelection(next);
+    localStorage.setItem("replay_selection", JSON.stringify(next));
+  };
+
+  const handleSaveRecording = (session: RecordedSession) => {
+    try {
+        setRecordedSessions(saveRecordedSession(session));
+    } catch (e: any) {
+        // Too large for localStorage: hand the fixture to the user instead of losing it
+        onError(e.message);
+        downloadSession(session);
+    }
+  };
+
+  const handleDeleteRecording = (id: string) => {
+    setRecordedSessions(deleteRecordedSession(id));
+    if (replaySelection?.sessionId === id) handleSelectReplay("");
+  };
+
+  const handleImportRecording = async (file: File) => {
+    try {
+        handleSaveRecording(parseSessionFixture(await file.text()));
+    } catch (e: any) {
+        onError(e.message);
+    }
+  };
+
+  return {
+    recordMode,
+    recordedSessions,
+    replaySelection,
+    replaySession,
+    handleToggleRecordMode,
+    handleSelectReplay,
+    handleChangeAsOf,
+    handleSaveRecording,
+    handleDeleteRecording,
+    handleImportRecording,
+  };
+};
+
+export type ReplayState = ReturnType<typeof useReplay>;
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { PolygonEntitlements, PolygonPlan, ProviderChainConfig, SigmaSource } from '../types.ts';
+import { validateApiKey, setPolygonPlan, setPolygonEntitlements } from '../services/polygonService.ts';
+import { DEFAULT_PROVIDER_CHAIN_CONFIG } from '../services/providerChain.ts';
+import { normalizeChainConfig } from '../services/providerRegistry.ts';
+import { DEFAULT_SIGMA_PREFERENCE } from '../utils/calculations.ts';
+import { DEFAULT_RISK_FREE_RATE } from '../utils/blackScholes.ts';
+
+// API keys, Polygon plan / entitlements, provider chain and pricing-model settings, persisted to localStorage.
+// `replaying`: a replayed fixture was recorded with some other key, so the probed entitlements are not applied.
+export const useSettings = (replaying: boolean) => {
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [polygonKey, setPolygonKey] = useState<string>("");
+  const [geminiKey, setGeminiKey] = useState<string>("");
+  const [polygonPlan, setPolygonPlanState] = useState<PolygonPlan>('free');
+  const [chainConfig, setChainConfig] = useState<ProviderChainConfig>(DEFAULT_PROVIDER_CHAIN_CONFIG);
+  const [riskFreeRate, setRiskFreeRateState] = useState<number>(DEFAULT_RISK_FREE_RATE);
+  const [sigmaPreference, setSigmaPreferenceState] = useState<SigmaSource[]>(DEFAULT_SIGMA_PREFERENCE);
+
+  // Key verification and the probed plan profile
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verificationStatus, setVerificationStatus] = useState<{valid: boolean, msg?: string} | null>(null);
+  const [polygonEntitlements, setPolygonEntitlementsState] = useState<PolygonEntitlements | null>(null);
+  // Key the expiration list is loaded with: the key field saves on every keystroke, so the
+  // list only follows it once the settings panel is closed or the key has been verified
+  const [committedPolygonKey, setCommittedPolygonKey] = useState<string>("");
+
+  // Load on Mount
+  useEffect(() => {
+    const savedPoly = localStorage.getItem("polygon_api_key");
+    const savedGemini = localStorage.getItem("gemini_api_key");
+
+    if (savedPoly) setPolygonKey(savedPoly);
+    if (savedGemini) setGeminiKey(savedGemini);
+
+    const savedPlan = localStorage.getItem("polygon_plan");
+    if (savedPlan === 'free' || savedPlan === 'paid') setPolygonPlanState(savedPlan);
+
+    const savedEntitlements = localStorage.getItem("polygon_entitlements");
+    if (savedEntitlements) {
+        try {
+            setPolygonEntitlementsState(JSON.parse(savedEntitlements));
+        } catch (e) {
+            console.warn("Invalid Polygon entitlements, ignoring", e);
+        }
+    }
+
+    const savedRate = parseFloat(localStorage.getItem("risk_free_rate") || "");
+    if (!isNaN(savedRate)) setRiskFreeRateState(savedRate);
+
+    const savedSigmaPref = localStorage.getItem("sigma_preference");
+    if (savedSigmaPref) setSigmaPreferenceState(savedSigmaPref.split(',') as SigmaSource[]);
+
+    const savedChain = localStorage.getItem("provider_chain_config");
+    if (savedChain) {
+        try {
+            setChainConfig(normalizeChainConfig({ ...DEFAULT_PROVIDER_CHAIN_CONFIG, ...JSON.parse(savedChain) }));
+        } catch (e) {
+            console.warn("Invalid provider chain config, using defaults", e);
+        }
+    }
+  }, []);
+
+  // Polygon requests are paced by the plan's rate limit
+  useEffect(() => {
+    setPolygonPlan(polygonPlan);
+  }, [polygonPlan]);
+
+  // Probed entitlements let the chain pick its strategy up front
+  useEffect(() => {
+    setPolygonEntitlements(replaying ? null : polygonEntitlements);
+  }, [polygonEntitlements, replaying]);
+
+  useEffect(() => {
+    if (!showSettings) setCommittedPolygonKey(polygonKey);
+  }, [showSettings, polygonKey]);
+
+  const handleSaveKey = (type: 'polygon' | 'gemini', val: string) => {
+    if (type === 'polygon') {
+        setPolygonKey(val);
+        localStorage.setItem("polygon_api_key", val);
+        setVerificationStatus(null); // Reset status on edit
+        setPolygonEntitlementsState(null); // The profile belongs to the previous key
+        localStorage.removeItem("polygon_entitlements");
+    } else {
+        setGeminiKey(val);
+        localStorage.setItem("gemini_api_key", val);
+    }
+  };
+
+  const handleChangePolygonPlan = (plan: PolygonPlan) => {
+    setPolygonPlanState(plan);
+    localStorage.setItem("polygon_plan", plan);
+  };
+
+  const handleTestKey = async (ticker: string) => {
+    if (!polygonKey) return;
+    setIsVerifying(true);
+    setVerificationStatus(null);
+    const result = await validateApiKey(polygonKey, ticker);
+    setVerificationStatus({ valid: result.valid, msg: result.message });
+    if (result.valid) setCommittedPolygonKey(polygonKey);
+    if (result.entitlements) {
+        setPolygonEntitlementsState(result.entitlements);
+        localStorage.setItem("polygon_entitlements", JSON.stringify(result.entitlements));
+        // Options snapshot access comes with every paid plan, and paid plans are unmetered
+        handleChangePolygonPlan(result.entitlements.snapshot ? 'paid' : 'free');
+    }
+    setIsVerifying(false);
+  };
+
+  const handleUpdateChainConfig = (patch: Partial<ProviderChainConfig>) => {
+    const next = normalizeChainConfig({ ...chainConfig, ...patch });
+    setChainConfig(next);
+    localStorage.setItem("provider_chain_config", JSON.stringify(next));
+  };
+
+  const handleChangeRiskFreeRate = (rate: number) => {
+    setRiskFreeRateState(rate);
+    localStorage.setItem("risk_free_rate", rate.toString());
+  };
+
+  const handleChangeSigmaPreference = (pref: SigmaSource[]) => {
+    setSigmaPreferenceState(pref);
+    localStorage.setItem("sigma_preference", pref.join(','));
+  };
+
+  return {
+    showSettings,
+    setShowSettings,
+    polygonKey,
+    geminiKey,
+    committedPolygonKey,
+    polygonPlan,
+    polygonEntitlements,
+    isVerifying,
+    verificationStatus,
+    chainConfig,
+    riskFreeRate,
+    sigmaPreference,
+    handleSaveKey,
+    handleTestKey,
+    handleChangePolygonPlan,
+    handleUpdateChainConfig,
+    handleChangeRiskFreeRate,
+    handleChangeSigmaPreference,
+  };
+};
+
+export type SettingsState = ReturnType<typeof useSettings>;
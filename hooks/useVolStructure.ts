@@ -0,0 +1,35 @@
+import { useState } from 'react';
+import { MarketDataProvider, ProviderChainConfig, RowContext, VolatilityStructure } from '../types.ts';
+import { loadVolatilityStructure, VolStructureRequest } from '../services/volStructure.ts';
+
+// Skew (both sides of the selected expiration) and ATM IV term structure, loaded on demand
+export const useVolStructure = (onError: (err: any) => void) => {
+  const [volStructure, setVolStructure] = useState<VolatilityStructure | null>(null);
+  const [isLoadingStructure, setIsLoadingStructure] = useState(false);
+  const [structureMessage, setStructureMessage] = useState("");
+
+  const loadStructure = async (
+    providers: MarketDataProvider[],
+    config: ProviderChainConfig,
+    request: VolStructureRequest,
+    rowContext: Omit<RowContext, 'expiration' | 'contractType' | 'underlyingPrice'>
+  ) => {
+    setIsLoadingStructure(true);
+    try {
+        setVolStructure(await loadVolatilityStructure(providers, config, request, rowContext, setStructureMessage));
+    } catch (err: any) {
+        console.error(err);
+        onError(err);
+    } finally {
+        setIsLoadingStructure(false);
+    }
+  };
+
+  return {
+    volStructure,
+    isLoadingStructure,
+    structureMessage,
+    resetStructure: () => setVolStructure(null),
+    loadStructure,
+  };
+};
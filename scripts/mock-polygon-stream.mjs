@@ -0,0 +1,140 @@
+// Local stand-in for Polygon's WebSocket clusters, for exercising streaming mode without a key.
+//
+//   node scripts/mock-polygon-stream.mjs [--port 8765] [--price 500] [--interval 500]
+//
+// Then set the stream URL in Settings to ws://localhost:8765. Serves `/options` and `/stocks`
+// with Polygon's status / auth / subscribe handshake, and random-walks a bid/ask for every
+// subscribed `Q.<symbol>` channel. Any key is accepted except "bad" (to test auth failure).
+// Dependency-free: implements just enough of RFC 6455 (text frames, close) for the browser client.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const arg = (name, fallback) => {
+  const i = process.argv.indexOf(`--${name}`);
+  return i > 0 ? Number(process.argv[i + 1]) : fallback;
+};
+const PORT = arg('port', 8765);
+const UNDERLYING_PRICE = arg('price', 500);
+const INTERVAL_MS = arg('interval', 500);
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const len = payload.length;
+  const header = len < 126 ? Buffer.from([0x80 | opcode, len])
+    : len < 65536 ? Buffer.from([0x80 | opcode, 126, len >> 8, len & 0xff])
+    : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(len)); return b; })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Client frames are always masked. Returns [frames, rest-of-buffer].
+const decodeFrames = (buf) => {
+  const frames = [];
+  let offset = 0;
+  while (buf.length - offset >= 2) {
+    const opcode = buf[offset] & 0x0f;
+    let len = buf[offset + 1] & 0x7f;
+    let pos = offset + 2;
+    if (len === 126) { if (buf.length < pos + 2) break; len = buf.readUInt16BE(pos); pos += 2; }
+    else if (len === 127) { if (buf.length < pos + 8) break; len = Number(buf.readBigUInt64BE(pos)); pos += 8; }
+    if (buf.length < pos + 4 + len) break;
+    const mask = buf.subarray(pos, pos + 4);
+    const data = Buffer.from(buf.subarray(pos + 4, pos + 4 + len));
+    for (let i = 0; i < data.length; i++) data[i] ^= mask[i % 4];
+    frames.push({ opcode, text: data.toString() });
+    offset = pos + 4 + len;
+  }
+  return [frames, buf.subarray(offset)];
+};
+
+// O:QQQ250117P00400000 -> { type: 'P', strike: 400 }
+const parseOcc = (sym) => {
+  const m = /^O:[A-Z.]+\d{6}([CP])(\d{8})$/.exec(sym);
+  return m ? { type: m[1], strike: Number(m[2]) / 1000 } : null;
+};
+
+let underlying = UNDERLYING_PRICE;
+const marks = new Map(); // symbol -> mid
+
+const seedMark = (sym) => {
+  const occ = parseOcc(sym);
+  if (!occ) return underlying;
+  const intrinsic = Math.max(0, occ.type === 'P' ? occ.strike - underlying : underlying - occ.strike);
+  const timeValue = 0.02 * underlying * Math.exp(-Math.abs(occ.strike - underlying) / (0.04 * underlying));
+  return Math.max(0.05, intrinsic + timeValue);
+};
+
+const quote = (sym) => {
+  const isStock = !sym.startsWith('O:');
+  const prev = isStock ? underlying : (marks.get(sym) ?? seedMark(sym));
+  const mid = Math.max(0.05, prev * (1 + (Math.random() - 0.5) * (isStock ? 0.002 : 0.04)));
+  if (isStock) underlying = mid; else marks.set(sym, mid);
+  const half = Math.max(0.01, mid * (isStock ? 0.0001 : 0.03));
+  const round = (v) => Math.round(v * 100) / 100;
+  return { ev: 'Q', sym, bp: round(mid - half), ap: round(mid + half), t: Date.now() };
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket only\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const cluster = (req.url || '').replace(/^\/+/, '');
+  if (cluster !== 'options' && cluster !== 'stocks') {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(req.headers['sec-websocket-key'] + WS_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+  const send = (messages) => socket.writable && socket.write(encodeFrame(JSON.stringify(messages)));
+  const channels = new Set();
+  let authed = false;
+  let buffer = Buffer.alloc(0);
+
+  send([{ ev: 'status', status: 'connected', message: 'Connected Successfully' }]);
+  console.log(`[${cluster}] client connected`);
+
+  const timer = setInterval(() => {
+    if (channels.size === 0) return;
+    send([...channels].map(quote));
+  }, INTERVAL_MS);
+
+  const close = () => {
+    clearInterval(timer);
+    socket.destroy();
+  };
+
+  socket.on('data', (chunk) => {
+    const [frames, rest] = decodeFrames(Buffer.concat([buffer, chunk]));
+    buffer = rest;
+    for (const frame of frames) {
+      if (frame.opcode === 0x8) {
+        socket.write(encodeFrame('', 0x8));
+        close();
+        return;
+      }
+      if (frame.opcode !== 0x1) continue;
+      let msg;
+      try { msg = JSON.parse(frame.text); } catch { continue; }
+      if (msg.action === 'auth') {
+        authed = msg.params !== 'bad';
+        send([{ ev: 'status', status: authed ? 'auth_success' : 'auth_failed', message: authed ? 'authenticated' : 'authentication failed' }]);
+      } else if (msg.action === 'subscribe' && authed) {
+        const subs = String(msg.params).split(',').filter(c => c.startsWith('Q.')).map(c => c.slice(2));
+        subs.forEach(s => channels.add(s));
+        send([{ ev: 'status', status: 'success', message: `subscribed to ${subs.length} channels` }]);
+        console.log(`[${cluster}] subscribed ${subs.length} (total ${channels.size})`);
+      }
+    }
+  });
+  socket.on('close', () => clearInterval(timer));
+  socket.on('error', close);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Polygon stream on ws://localhost:${PORT} (/options, /stocks), underlying ~$${UNDERLYING_PRICE}`);
+});
@@ -0,0 +1,93 @@
+import { ContractType, CrossVerification, MarketDataProvider, PremiumQuote, ProviderChainResult, SourceLink, StrikeVerification, TickerInfo, VerifyConfidence, VerifyTolerance } from "../types.ts";
+import { DataServiceError } from "./errors.ts";
+
+// Premiums within $0.05 or 10% count as agreeing (bid/ask snapshots are rarely simultaneous)
+export const DEFAULT_VERIFY_TOLERANCE: VerifyTolerance = { absolute: 0.05, relative: 0.10 };
+
+// AI search prices a handful of strikes per request; keep the second fetch to one round
+export const MAX_VERIFY_STRIKES = 5;
+
+// Comparable price from whatever a source quoted: mid when both sides exist, else last, else premium
+export const referencePremium = (q: PremiumQuote & { premium: number }): number => {
+  if (q.mid !== undefined) return q.mid;
+  if (q.bid !== undefined && q.ask !== undefined) return (q.bid + q.ask) / 2;
+  return q.last ?? q.premium;
+};
+
+export const classifyDiff = (primary: number, secondary: number, tolerance: VerifyTolerance): VerifyConfidence => {
+  const allowed = Math.max(tolerance.absolute, tolerance.relative * primary);
+  const diff = Math.abs(secondary - primary);
+  if (diff <= allowed) return 'agree';
+  if (diff <= allowed * 2) return 'minor';
+  return 'conflict';
+};
+
+// OTM strikes nearest the money: the ones a seller actually ranks
+const pickVerifyStrikes = (result: ProviderChainResult, contractType: ContractType): number[] => {
+  const price = result.currentPrice || 0;
+  return (result.options || [])
+    .map(o => o.strike)
+    .filter(k => contractType === 'put' ? k <= price : k >= price)
+    .sort((a, b) => Math.abs(a - price) - Math.abs(b - price))
+    .slice(0, MAX_VERIFY_STRIKES)
+    .sort((a, b) => a - b);
+};
+
+// Re-fetch the primary result's strikes from the next configured provider and diff them per strike.
+export const crossVerify = async (
+  providers: MarketDataProvider[],
+  request: { ticker: TickerInfo; expiration: string; contractType: ContractType },
+  primary: ProviderChainResult,
+  onProgress: (msg: string) => void,
+  tolerance: VerifyTolerance = DEFAULT_VERIFY_TOLERANCE
+): Promise<{ verification: CrossVerification; sources: SourceLink[] }> => {
+  const secondary = providers.find(p => p.id !== primary.providerId && p.isConfigured());
+  if (!secondary) throw new DataServiceError('not_configured', 'app', "交叉验证需要同时配置 Polygon 与 Gemini Key。");
+
+  const strikes = pickVerifyStrikes(primary, request.contractType);
+  if (strikes.length === 0) throw new DataServiceError('empty_chain', primary.providerId, "主数据源没有可用于比对的价外行权价。");
+
+  onProgress(`交叉验证: 正在从 ${secondary.label} 获取 ${strikes.length} 个行权价...`);
+  const quote = await secondary.getUnderlyingPrice(request.ticker, onProgress);
+  const other = await secondary.getChain({
+    ...request,
+    underlyingPrice: quote.price,
+    onProgress,
+    strikes,
+  });
+
+  const primaryByStrike = new Map((primary.options || []).map(o => [o.strike, o]));
+  const otherByStrike = new Map((other.options || []).map(o => [o.strike, o]));
+
+  const rows: StrikeVerification[] = strikes.map(strike => {
+    const a = primaryByStrike.get(strike);
+    const b = otherByStrike.get(strike);
+    if (!a || !b) {
+      return { strike, primary: a && referencePremium(a), secondary: b && referencePremium(b), confidence: 'single' };
+    }
+    const p = referencePremium(a);
+    const s = referencePremium(b);
+    return {
+      strike,
+      primary: p,
+      secondary: s,
+      diff: s - p,
+      diffPct: p > 0 ? Math.abs(s - p) / p * 100 : undefined,
+      confidence: classifyDiff(p, s, tolerance),
+    };
+  });
+
+  const primaryPrice = primary.currentPrice || 0;
+  return {
+    verification: {
+      primaryLabel: primary.providerLabel,
+      secondaryLabel: secondary.label,
+      primaryPrice,
+      secondaryPrice: quote.price,
+      priceDiffPct: primaryPrice > 0 ? Math.abs(quote.price - primaryPrice) / primaryPrice * 100 : undefined,
+      tolerance,
+      rows,
+    },
+    sources: [...(quote.sources || []), ...(other.sources || [])],
+  };
+};
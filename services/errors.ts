@@ -0,0 +1,82 @@
+import { DataErrorCode } from "../types.ts";
+
+// Whether repeating the same request later can succeed without the user changing anything
+const RETRYABLE: Record<DataErrorCode, boolean> = {
+  auth: false,
+  entitlement: false,
+  rate_limit: true,
+  network: true,
+  upstream: true,
+  empty_chain: false,
+  parse: true, // AI extraction is non-deterministic
+  not_configured: false,
+  unknown: false,
+};
+
+// Typed failure from a data service. `code` drives UI guidance and provider fallback;
+// `message` keeps the technical detail (status text, endpoint) for the error banner.
+export class DataServiceError extends Error {
+  readonly code: DataErrorCode;
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(code: DataErrorCode, provider: string, message: string, status?: number) {
+    super(message);
+    this.name = 'DataServiceError';
+    this.code = code;
+    this.provider = provider;
+    this.status = status;
+    this.retryable = RETRYABLE[code];
+  }
+}
+
+export const codeFromStatus = (status: number): DataErrorCode => {
+  if (status === 401) return 'auth';
+  if (status === 403) return 'entitlement';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'upstream';
+  return 'unknown';
+};
+
+export const errorFromResponse = (provider: string, res: Response, context: string): DataServiceError =>
+  new DataServiceError(codeFromStatus(res.status), provider, `${context}: ${res.status} ${res.statusText}`, res.status);
+
+// Normalize anything thrown by fetch / SDK calls. `fetch` rejects with a TypeError when offline or blocked (CORS).
+export const toDataServiceError = (e: unknown, provider: string): DataServiceError => {
+  if (e instanceof DataServiceError) return e;
+  const err = e as any;
+  const message = err?.message || String(e);
+  if (e instanceof TypeError) return new DataServiceError('network', provider, message);
+  // @google/genai ApiError carries the HTTP status; an invalid key comes back as 400 "API key not valid"
+  if (typeof err?.status === 'number') {
+    const code = /api key not valid/i.test(message) ? 'auth' : codeFromStatus(err.status);
+    return new DataServiceError(code, provider, message, err.status);
+  }
+  return new DataServiceError('unknown', provider, message);
+};
+
+// --- UI mapping ---
+
+export interface ErrorGuidance {
+  title: string;
+  guidance: string;
+  openSettings: boolean; // The fix is in the settings panel (key, plan, provider order)
+}
+
+const GUIDANCE: Record<DataErrorCode, ErrorGuidance> = {
+  auth: { title: "API Key 无效", guidance: "请在设置中检查 Key 是否正确或已过期。", openSettings: true },
+  entitlement: { title: "套餐权限不足", guidance: "当前套餐不包含此数据，请升级 Polygon 套餐或切换到其他数据源。", openSettings: true },
+  rate_limit: { title: "请求过于频繁", guidance: "已超出速率限制，请稍后重试 (Free Tier 每分钟 5 次)。", openSettings: false },
+  network: { title: "网络错误", guidance: "无法连接数据源，请检查网络后重试。", openSettings: false },
+  upstream: { title: "数据源服务异常", guidance: "数据源暂时不可用，请稍后重试。", openSettings: false },
+  empty_chain: { title: "期权链为空", guidance: "该到期日没有报价，请更换日期或手动补录。", openSettings: false },
+  parse: { title: "数据解析失败", guidance: "返回的数据无法识别，可重试或切换数据源。", openSettings: false },
+  not_configured: { title: "未配置数据源", guidance: "请在设置中输入 API Key (Polygon 或 Gemini)。", openSettings: true },
+  unknown: { title: "获取数据失败", guidance: "请重试；若持续失败请查看 Debug 信息。", openSettings: false },
+};
+
+export const describeError = (e: unknown): ErrorGuidance & { code: DataErrorCode; retryable: boolean } => {
+  const err = e instanceof DataServiceError ? e : toDataServiceError(e, 'app');
+  return { ...GUIDANCE[err.code], code: err.code, retryable: err.retryable };
+};
@@ -0,0 +1,66 @@
+import { ContractType, MarketDataProvider, OptionRow, StraddleMove, TickerInfo } from "../types.ts";
+import { parityPrice, DEFAULT_RISK_FREE_RATE } from "../utils/blackScholes.ts";
+import { referencePremium } from "./crossVerify.ts";
+
+export interface StraddleRequest {
+  ticker: TickerInfo;
+  expiration: string;
+  contractType: ContractType; // Side already loaded
+  underlyingPrice: number;
+  loaded: OptionRow[];
+  rate?: number;
+}
+
+// Straddle-implied expected move for the loaded expiration. The loaded side supplies the ATM
+// leg; the other leg is fetched for that one strike from the provider that answered, and falls
+// back to put-call parity when it can't be quoted. Targeted (OTM-only) chains may have no strike
+// near spot; a straddle struck further away overstates the move by about |S - K|, so none is returned.
+export const loadStraddleMove = async (
+  provider: MarketDataProvider | undefined,
+  request: StraddleRequest
+): Promise<StraddleMove | null> => {
+  const { underlyingPrice: S, loaded } = request;
+  const candidates = loaded.filter(r => r.premium > 0 && (r.type || request.contractType) === request.contractType);
+  if (candidates.length === 0 || !S) return null;
+  const atm = candidates.reduce((a, b) => Math.abs(b.strike - S) < Math.abs(a.strike - S) ? b : a);
+  if (Math.abs(atm.strike - S) > request.ticker.strikeIncrement) return null;
+  const known = referencePremium(atm);
+  const opposite: ContractType = request.contractType === 'put' ? 'call' : 'put';
+
+  let other: number | undefined;
+  if (provider) {
+    try {
+      const data = await provider.getChain({
+        ticker: request.ticker,
+        expiration: request.expiration,
+        contractType: opposite,
+        underlyingPrice: S,
+        strikes: [atm.strike],
+        onProgress: () => {},
+      });
+      const quoted = (data.options || []).find(o => o.strike === atm.strike);
+      if (quoted) other = referencePremium(quoted);
+    } catch (e) {
+      console.warn("Straddle: opposite leg unavailable, using parity", e);
+    }
+  }
+
+  const source = other !== undefined && other > 0 ? 'quotes' : 'parity';
+  if (source === 'parity') {
+    other = parityPrice(request.contractType, known, S, atm.strike, atm.daysToExpiration / 365, request.rate ?? DEFAULT_RISK_FREE_RATE);
+  }
+  const putPrice = request.contractType === 'put' ? known : other!;
+  const callPrice = request.contractType === 'call' ? known : other!;
+  const move = putPrice + callPrice;
+
+  return {
+    expiration: request.expiration,
+    strike: atm.strike,
+    putPrice,
+    callPrice,
+    move,
+    lower: S - move,
+    upper: S + move,
+    source,
+  };
+};
@@ -0,0 +1,28 @@
+import { ExpirationList, TickerInfo } from "../types.ts";
+import { fetchPolygonExpirations } from "./polygonService.ts";
+import { generateExpirationCalendar } from "../utils/marketCalendar.ts";
+import { now } from "../utils/clock.ts";
+
+// Listed expirations for a ticker. Polygon's contract reference is authoritative;
+// without a key (or when it fails) we fall back to the bundled holiday-aware calendar.
+export const loadExpirations = async (
+  ticker: TickerInfo,
+  polygonKey: string,
+  maxDays: number = 120
+): Promise<ExpirationList> => {
+  if (polygonKey && polygonKey.trim().length > 5) {
+    try {
+      const { dates, truncated } = await fetchPolygonExpirations(polygonKey, ticker.symbol, maxDays);
+      if (dates.length > 0) return { dates, source: 'polygon', truncated };
+    } catch (e) {
+      console.warn("Polygon expirations failed, using offline calendar", e);
+    }
+  }
+  return { dates: generateExpirationCalendar(ticker, now(), maxDays), source: 'calendar' };
+};
+
+// Keep the current selection if it is listed, otherwise snap to the first listed date on/after it
+export const snapToExpiration = (dates: string[], current: string): string => {
+  if (dates.length === 0 || dates.includes(current)) return current;
+  return dates.find(d => d >= current) || dates[dates.length - 1];
+};
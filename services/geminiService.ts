@@ -1,22 +1,33 @@
 import { GoogleGenAI } from "@google/genai";
-import { GeminiResponseData, VolatilityMetrics } from "../types.ts";
+import { GeminiResponseData, MarketDataProvider, PriceQuote, SourceLink, TickerInfo, VolatilityMetrics } from "../types.ts";
 import { getTargetStrikes, getIVStatus, calculateIVRank } from "../utils/calculations.ts";
+import { DEFAULT_TICKER, resolveStrikeIncrement } from "../utils/tickers.ts";
+import { generateContent } from "./recorder.ts";
+import { peekCache, withCache } from "./responseCache.ts";
+import { DataServiceError, toDataServiceError } from "./errors.ts";
+import { OPTIONS_SCHEMA, PRICE_SCHEMA, Schema, SchemaResult, VXN_SCHEMA, checkOptionPlausibility, checkPriceBand } from "./geminiValidation.ts";
 
-// Helper to extract JSON
-const extractJson = (text: string): any => {
-  const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-  if (jsonMatch && jsonMatch[1]) {
-    try { return JSON.parse(jsonMatch[1]); } catch (e) { console.warn("Markdown JSON parse fail", e); }
-  }
-  
-  const firstBrace = text.indexOf('{');
-  const lastBrace = text.lastIndexOf('}');
-  
-  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-    const potentialJson = text.substring(firstBrace, lastBrace + 1);
-    try { return JSON.parse(potentialJson); } catch (e) { console.warn("Raw JSON parse fail", e); }
-  }
-  return null;
+// Helper to extract JSON and validate it against the expected payload schema
+const extractJson = <T>(text: string, schema: Schema<T>): SchemaResult<T> => {
+  const parse = (): any => {
+    const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
+    if (jsonMatch && jsonMatch[1]) {
+      try { return JSON.parse(jsonMatch[1]); } catch (e) { console.warn("Markdown JSON parse fail", e); }
+    }
+    
+    const firstBrace = text.indexOf('{');
+    const lastBrace = text.lastIndexOf('}');
+    
+    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+      const potentialJson = text.substring(firstBrace, lastBrace + 1);
+      try { return JSON.parse(potentialJson); } catch (e) { console.warn("Raw JSON parse fail", e); }
+    }
+    return null;
+  };
+
+  const raw = parse();
+  if (raw === null) return { ok: false, error: "响应中没有可解析的 JSON" };
+  return schema(raw);
 };
 
 // Define distinct search strategies
@@ -53,30 +64,60 @@ const SEARCH_STRATEGIES = [
   }
 ];
 
-export const fetchMarketData = async (
-  targetDate: string, 
-  onProgress: (msg: string) => void,
-  contractType: 'put' | 'call' = 'put',
-  apiKey: string
-): Promise<GeminiResponseData> => {
+// A rejected key or exhausted quota fails the same way on every search strategy
+const failsEveryStrategy = (e: DataServiceError): boolean =>
+  e.code === 'auth' || e.code === 'entitlement' || e.code === 'rate_limit';
+
+// Helper to turn grounding chunks into unique UI source links
+const formatSources = (chunks: any[]): SourceLink[] => {
+  const formattedSources = chunks
+    .map((chunk: any) => chunk.web)
+    .filter((web: any) => web)
+    .map((web: any) => ({ uri: web.uri, title: web.title || "Source" }));
+
+  return Array.from(new Map<string, SourceLink>(formattedSources.map((item: SourceLink) => [item.uri, item])).values());
+};
+
+// ==========================================
+// STEP 1: Fetch Current Price
+// ==========================================
+
+// Band-check reference that doesn't come from the answer being checked: the last price Polygon
+// served, else the last cached Gemini price. Without either, the answer's own previous close is used.
+const findReferencePrice = async (ticker: TickerInfo): Promise<{ price: number; label: string } | null> => {
+  const polygon = await peekCache<number>({ provider: 'polygon', endpoint: 'price', ticker: ticker.symbol });
+  if (polygon) return { price: polygon, label: ' Polygon 最近价格' };
+  const cached = await peekCache<PriceQuote>({ provider: 'gemini', endpoint: 'price', ticker: ticker.symbol });
+  if (cached?.price) return { price: cached.price, label: '上次缓存价格' };
+  return null;
+};
+
+const loadGeminiPrice = async (
+  apiKey: string,
+  ticker: TickerInfo,
+  onProgress: (msg: string) => void
+): Promise<PriceQuote> => {
   if (!apiKey) {
-    throw new Error("Gemini API Key is missing");
+    throw new DataServiceError('not_configured', 'gemini', "Gemini API Key is missing");
   }
 
   const ai = new GoogleGenAI({ apiKey: apiKey });
   let currentPrice = 0;
   let sources: any[] = [];
-  let optionsData: any = { options: [] };
+  const warnings: string[] = [];
+  const rejected: string[] = []; // Schema failures only matter if no source succeeds
+  // First schema-valid price that failed the band check, used only if no source passes
+  let outOfBand: { price: number; chunks: any[] } | null = null;
+  let lastError: DataServiceError | null = null;
 
-  // ==========================================
-  // STEP 1: Fetch Current Price
-  // ==========================================
   // For price, Yahoo/Google Finance is usually best/fastest
   const priceStrategies = [
      SEARCH_STRATEGIES[2], // Yahoo
      SEARCH_STRATEGIES[3], // General
   ];
 
+  const reference = await findReferencePrice(ticker);
+
   for (const strategy of priceStrategies) {
     if (currentPrice > 0) break;
 
@@ -84,37 +125,86 @@ export const fetchMarketData = async (
     
     try {
       const pricePrompt = `
-        Search query: ${strategy.queryPrefix} current real-time price NASDAQ:QQQ ETF.
-        Task: Find the live price.
-        Return JSON ONLY: { "currentPrice": <number> }
+        Search query: ${strategy.queryPrefix} current real-time price ${ticker.exchange}:${ticker.symbol} (${ticker.name}).
+        Task: Find the live price and the previous trading day's closing price.
+        Return JSON ONLY: { "currentPrice": <number>, "previousClose": <number|null> }
       `;
       
-      const response = await ai.models.generateContent({
+      const response = await generateContent(ai, {
         model: "gemini-2.5-flash",
         contents: pricePrompt,
         config: { tools: [{ googleSearch: {} }] },
       });
 
-      const data = extractJson(response.text);
-      if (data && data.currentPrice && typeof data.currentPrice === 'number') {
-        currentPrice = data.currentPrice;
-        if (response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-           sources = [...sources, ...response.candidates[0].groundingMetadata.groundingChunks];
-        }
+      const result = extractJson(response.text, PRICE_SCHEMA);
+      if (result.ok === false) {
+        rejected.push(`${strategy.name} 价格数据无效: ${result.error}`);
+        continue;
       }
+
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const bandWarning = reference
+        ? checkPriceBand(result.value.currentPrice, reference.price, reference.label)
+        : checkPriceBand(result.value.currentPrice, result.value.previousClose);
+      if (bandWarning) {
+        warnings.push(`${strategy.name}: ${bandWarning}`);
+        outOfBand = outOfBand || { price: result.value.currentPrice, chunks };
+        continue;
+      }
+
+      currentPrice = result.value.currentPrice;
+      sources = [...sources, ...chunks];
     } catch (e) {
       console.warn(`Price fetch failed on ${strategy.name}`);
+      lastError = toDataServiceError(e, 'gemini');
+      if (failsEveryStrategy(lastError)) break;
     }
   }
 
+  if (!currentPrice && outOfBand) {
+    currentPrice = outOfBand.price;
+    sources = [...sources, ...outOfBand.chunks];
+    warnings.push(`没有来源通过价格合理性检查，暂用 $${currentPrice}，请核实后再参考收益率`);
+  }
+
   if (!currentPrice) {
-    throw new Error("Could not retrieve QQQ price from any source.");
+    if (lastError && rejected.length === 0) throw lastError;
+    throw new DataServiceError('parse', 'gemini', `Could not retrieve ${ticker.symbol} price from any source. ${rejected.join('; ')}`.trim());
+  }
+
+  return { price: currentPrice, sources: formatSources(sources), warnings };
+};
+
+export const fetchGeminiPrice = (apiKey: string, ticker: TickerInfo, onProgress: (msg: string) => void): Promise<PriceQuote> =>
+  withCache({ provider: 'gemini', endpoint: 'price', ticker: ticker.symbol }, () => loadGeminiPrice(apiKey, ticker, onProgress));
+
+// ==========================================
+// STEP 2: Fetch Targeted Options
+// ==========================================
+const loadGeminiOptions = async (
+  apiKey: string,
+  ticker: TickerInfo,
+  targetDate: string,
+  currentPrice: number,
+  contractType: 'put' | 'call',
+  onProgress: (msg: string) => void,
+  strikes?: number[]
+): Promise<GeminiResponseData> => {
+  if (!apiKey) {
+    throw new DataServiceError('not_configured', 'gemini', "Gemini API Key is missing");
   }
 
-  // ==========================================
-  // STEP 2: Fetch Targeted Options
-  // ==========================================
-  const targetStrikes = getTargetStrikes(currentPrice); 
+  const ai = new GoogleGenAI({ apiKey: apiKey });
+  let sources: any[] = [];
+  let optionsData: any = { options: [] };
+  const warnings: string[] = [];
+  const rejected: string[] = [];
+  let lastError: DataServiceError | null = null;
+  let answered = false; // At least one strategy got a response from the model
+
+  const targetStrikes = strikes && strikes.length > 0
+    ? strikes
+    : getTargetStrikes(currentPrice, resolveStrikeIncrement(ticker, currentPrice)); 
   const strikeList = targetStrikes.join(", ");
 
   // Use the full list of strategies for options
@@ -125,69 +215,123 @@ export const fetchMarketData = async (
 
     try {
       // Dynamic query construction based on strategy
-      const searchQuery = strategy.queryTemplate("QQQ", targetDate, targetStrikes[1], contractType);
+      const searchQuery = strategy.queryTemplate(ticker.symbol, targetDate, targetStrikes[Math.floor(targetStrikes.length / 2)], contractType);
 
       const optionsPrompt = `
-        Context: QQQ Price is $${currentPrice}. Expiration: ${targetDate}.
+        Context: ${ticker.symbol} Price is $${currentPrice}. Expiration: ${targetDate}.
         Target Strikes: ${strikeList}. Contract Type: ${contractType.toUpperCase()}.
         
         Search Query: ${searchQuery}
         
-        Task: Find the "Bid" or "Last" price for QQQ ${contractType.toUpperCase()} options expiring ${targetDate} for these specific strikes: ${strikeList}.
-        If you find the option table, extract the premiums.
+        Task: Find the "Bid", "Ask" and "Last" price for ${ticker.symbol} ${contractType.toUpperCase()} options expiring ${targetDate} for these specific strikes: ${strikeList}.
+        If you find the option table, extract the premiums. "premium" is the Bid, or the Last price if no Bid is shown.
+        Use null for any field you cannot find.
         
         Return JSON ONLY:
         {
           "options": [
-            { "strike": ${targetStrikes[0]}, "premium": <number> },
-            { "strike": ${targetStrikes[1]}, "premium": <number> },
-            { "strike": ${targetStrikes[2]}, "premium": <number> }
+            ${targetStrikes.map(k => `{ "strike": ${k}, "premium": <number>, "bid": <number|null>, "ask": <number|null>, "last": <number|null> }`).join(",\n            ")}
           ]
         }
       `;
 
-      const response = await ai.models.generateContent({
+      const response = await generateContent(ai, {
         model: "gemini-2.5-flash",
         contents: optionsPrompt,
         config: { tools: [{ googleSearch: {} }] },
       });
 
-      const parsed = extractJson(response.text);
-      if (parsed && Array.isArray(parsed.options) && parsed.options.length > 0) {
-        const validOptions = parsed.options.filter((o: any) => o.premium > 0);
-        if (validOptions.length > 0) {
-            optionsData.options = validOptions;
-            
-            if (response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-                sources = [...sources, ...response.candidates[0].groundingMetadata.groundingChunks];
-            }
-        }
+      answered = true;
+      const parsed = extractJson(response.text, OPTIONS_SCHEMA);
+      if (parsed.ok === false) {
+        rejected.push(`${strategy.name} 期权数据无效: ${parsed.error}`);
+        continue;
+      }
+
+      const checked = checkOptionPlausibility(parsed.value.options, currentPrice, targetDate, contractType);
+      warnings.push(...[...parsed.issues, ...checked.warnings].map(w => `${strategy.name}: ${w}`));
+      if (checked.options.length > 0) {
+          optionsData.options = checked.options;
+          
+          if (response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
+              sources = [...sources, ...response.candidates[0].groundingMetadata.groundingChunks];
+          }
       }
     } catch (e) {
        console.warn(`Option fetch failed on ${strategy.name}`);
+       lastError = toDataServiceError(e, 'gemini');
+       if (failsEveryStrategy(lastError)) break;
     }
   }
 
-  // Format sources for UI
-  const formattedSources = sources
-    .map((chunk: any) => chunk.web)
-    .filter((web: any) => web)
-    .map((web: any) => ({ uri: web.uri, title: web.title || "Source" }));
-
-  const uniqueSources = Array.from(new Map(formattedSources.map((item:any) => [item.uri, item])).values());
+  if (!answered && lastError) throw lastError;
 
   return {
     currentPrice,
-    options: optionsData.options,
-    sources: uniqueSources as any
+    // Search snippets carry no reliable quote time
+    options: optionsData.options.map((o: any) => ({ ...o, provenance: { source: 'gemini', basis: 'ai_search' } })),
+    sources: formatSources(sources),
+    warnings: optionsData.options.length > 0 ? warnings : [...warnings, ...rejected]
   };
 };
 
+export const fetchGeminiOptions = (
+  apiKey: string,
+  ticker: TickerInfo,
+  targetDate: string,
+  currentPrice: number,
+  contractType: 'put' | 'call',
+  onProgress: (msg: string) => void,
+  strikes?: number[]
+): Promise<GeminiResponseData> =>
+  withCache(
+    { provider: 'gemini', endpoint: 'chain', ticker: ticker.symbol, expiration: targetDate, contractType, variant: strikes?.join(',') },
+    () => loadGeminiOptions(apiKey, ticker, targetDate, currentPrice, contractType, onProgress, strikes),
+    data => (data.options?.length ?? 0) > 0
+  );
+
+export const fetchMarketData = async (
+  targetDate: string, 
+  onProgress: (msg: string) => void,
+  contractType: 'put' | 'call' = 'put',
+  apiKey: string,
+  ticker: TickerInfo = DEFAULT_TICKER
+): Promise<GeminiResponseData> => {
+  const quote = await fetchGeminiPrice(apiKey, ticker, onProgress);
+  const chain = await fetchGeminiOptions(apiKey, ticker, targetDate, quote.price, contractType, onProgress);
+
+  const uniqueSources = Array.from(new Map([...(quote.sources || []), ...(chain.sources || [])].map(item => [item.uri, item])).values());
+
+  return {
+    ...chain,
+    sources: uniqueSources,
+    warnings: [...(quote.warnings || []), ...(chain.warnings || [])]
+  };
+};
+
+// ========================================================
+// Provider adapter for the market data provider chain
+// ========================================================
+export const createGeminiProvider = (apiKey: string): MarketDataProvider => ({
+  id: 'gemini',
+  label: 'Gemini AI Search',
+  capabilities: { realtime: false, greeks: false, fullChain: false, expirations: false },
+  isConfigured: () => !!apiKey,
+  getUnderlyingPrice: (ticker, onProgress) => {
+    onProgress("正在连接 Gemini AI...");
+    return fetchGeminiPrice(apiKey, ticker, onProgress);
+  },
+  // Web search cannot enumerate listed expirations reliably
+  getExpirations: async () => [],
+  getChain: ({ ticker, expiration, contractType, underlyingPrice, onProgress, strikes }) =>
+    fetchGeminiOptions(apiKey, ticker, expiration, underlyingPrice, contractType, onProgress, strikes),
+});
+
 
 // ========================================================
 // NEW: Fetch Volatility Data (VXN Index - The VIX of Nasdaq)
 // ========================================================
-export const fetchVolatilityData = async (apiKey: string): Promise<VolatilityMetrics | null> => {
+const loadVolatilityData = async (apiKey: string): Promise<VolatilityMetrics | null> => {
   if (!apiKey) return null;
   
   const ai = new GoogleGenAI({ apiKey: apiKey });
@@ -208,16 +352,17 @@ export const fetchVolatilityData = async (apiKey: string): Promise<VolatilityMet
         }
       `;
       
-      const response = await ai.models.generateContent({
+      const response = await generateContent(ai, {
         model: "gemini-2.5-flash",
         contents: prompt,
         config: { tools: [{ googleSearch: {} }] },
       });
 
-      const data = extractJson(response.text);
+      const result = extractJson(response.text, VXN_SCHEMA);
       
-      if (data && data.currentIV) {
-          // If high/low are missing, use rough defaults or estimates if possible
+      if (result.ok) {
+          const data = result.value;
+          // If high/low are missing, use rough placeholders; the local IV history replaces them once it's long enough
           const high = data.highIV || 35; 
           const low = data.lowIV || 15;
           
@@ -230,12 +375,18 @@ export const fetchVolatilityData = async (apiKey: string): Promise<VolatilityMet
               lowIV: low,
               rank,
               status: status.msg,
-              statusColor: status.color
+              statusColor: status.color,
+              warnings: result.issues,
+              rangeEstimated: !data.highIV || !data.lowIV
           };
       }
+      if (result.ok === false) console.warn("VXN payload rejected:", result.error);
       return null;
   } catch (e) {
       console.warn("Vol fetch failed", e);
       return null;
   }
-};
\ No newline at end of file
+};
+
+export const fetchVolatilityData = (apiKey: string): Promise<VolatilityMetrics | null> =>
+  withCache({ provider: 'gemini', endpoint: 'volatility', ticker: 'VXN' }, () => loadVolatilityData(apiKey), metrics => metrics !== null);
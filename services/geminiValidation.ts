@@ -0,0 +1,158 @@
+import { ContractType } from "../types.ts";
+import { getDaysToExpiration } from "../utils/calculations.ts";
+
+// ==========================================
+// Schemas for the JSON Gemini extracts from search results.
+// A schema either returns a typed value (plus non-fatal issues, e.g. dropped rows)
+// or rejects the payload with a reason that is surfaced as a warning.
+// ==========================================
+
+export type SchemaResult<T> =
+  | { ok: true; value: T; issues: string[] }
+  | { ok: false; error: string };
+
+export type Schema<T> = (raw: any) => SchemaResult<T>;
+
+const fail = (error: string): SchemaResult<never> => ({ ok: false, error });
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// The prompts ask for `null` when a field is not found
+const optionalPositive = (v: unknown): number | undefined => (isFiniteNumber(v) && v > 0 ? v : undefined);
+
+export interface PricePayload {
+  currentPrice: number;
+  previousClose?: number;
+}
+
+export const PRICE_SCHEMA: Schema<PricePayload> = (raw) => {
+  if (!raw || typeof raw !== 'object') return fail("不是 JSON 对象");
+  if (!isFiniteNumber(raw.currentPrice) || raw.currentPrice <= 0) return fail("currentPrice 缺失或不是正数");
+  return {
+    ok: true,
+    value: { currentPrice: raw.currentPrice, previousClose: optionalPositive(raw.previousClose) },
+    issues: [],
+  };
+};
+
+export interface OptionQuotePayload {
+  strike: number;
+  premium: number;
+  bid?: number;
+  ask?: number;
+  last?: number;
+}
+
+export interface OptionsPayload {
+  options: OptionQuotePayload[];
+}
+
+export const OPTIONS_SCHEMA: Schema<OptionsPayload> = (raw) => {
+  if (!raw || !Array.isArray(raw.options)) return fail("缺少 options 数组");
+
+  const issues: string[] = [];
+  const options: OptionQuotePayload[] = [];
+  let dropped = 0;
+
+  for (const o of raw.options) {
+    if (!o || !isFiniteNumber(o.strike) || o.strike <= 0 || !isFiniteNumber(o.premium) || o.premium <= 0) {
+      dropped++;
+      continue;
+    }
+    let bid = optionalPositive(o.bid);
+    let ask = optionalPositive(o.ask);
+    if (bid !== undefined && ask !== undefined && bid > ask) {
+      issues.push(`$${o.strike}: Bid ${bid} 高于 Ask ${ask}，已忽略买卖报价`);
+      bid = undefined;
+      ask = undefined;
+    }
+    options.push({ strike: o.strike, premium: o.premium, bid, ask, last: optionalPositive(o.last) });
+  }
+
+  if (dropped > 0) issues.push(`${dropped} 条记录缺少有效的行权价或权利金，已忽略`);
+  if (options.length === 0) return fail("options 中没有有效记录");
+  return { ok: true, value: { options }, issues };
+};
+
+// VXN has traded roughly 10–85 since inception; outside this range is a mis-read
+const VXN_RANGE = { min: 5, max: 150 };
+
+export interface VxnPayload {
+  currentIV: number;
+  highIV?: number;
+  lowIV?: number;
+}
+
+export const VXN_SCHEMA: Schema<VxnPayload> = (raw) => {
+  if (!raw || typeof raw !== 'object') return fail("不是 JSON 对象");
+  const inRange = (v: unknown): v is number => isFiniteNumber(v) && v >= VXN_RANGE.min && v <= VXN_RANGE.max;
+  if (!inRange(raw.currentIV)) return fail(`currentIV 缺失或超出 ${VXN_RANGE.min}–${VXN_RANGE.max} 范围`);
+
+  const issues: string[] = [];
+  let highIV = inRange(raw.highIV) ? raw.highIV : undefined;
+  let lowIV = inRange(raw.lowIV) ? raw.lowIV : undefined;
+  // The 52-week range must contain today's value
+  if ((highIV !== undefined && highIV < raw.currentIV) || (lowIV !== undefined && lowIV > raw.currentIV)) {
+    issues.push("VXN 52 周高/低点与当前值矛盾，已改用默认区间");
+    highIV = undefined;
+    lowIV = undefined;
+  } else if (highIV === undefined || lowIV === undefined) {
+    issues.push("未取得完整的 VXN 52 周区间，IV Rank 基于估计值");
+  }
+  return { ok: true, value: { currentIV: raw.currentIV, highIV, lowIV }, issues };
+};
+
+// ==========================================
+// Plausibility checks against market structure
+// ==========================================
+
+// Max move from a reference close we accept as a live price: above the worst index-ETF sessions
+// (QQQ fell about 12% on 2020-03-16), well below a misread quote for another ticker or share class
+export const PRICE_BAND_PCT = 0.12;
+
+// Time value cap: ATM premium ≈ 0.4·S·σ·√T, evaluated at an implausibly high σ
+const MAX_PLAUSIBLE_IV = 1.5;
+
+// Tolerance for the monotonic check, so a 1¢ tick difference on far strikes isn't flagged
+const MONOTONIC_TOLERANCE = 0.01;
+
+// Returns a warning when `price` is too far from the reference close to be a real quote
+export const checkPriceBand = (price: number, reference?: number, referenceLabel: string = '前收盘价'): string | null => {
+  if (!reference) return null;
+  const move = price / reference - 1;
+  if (Math.abs(move) <= PRICE_BAND_PCT) return null;
+  return `价格 $${price} 偏离${referenceLabel} $${reference} ${(move * 100).toFixed(1)}%，超出 ±${PRICE_BAND_PCT * 100}% 合理范围`;
+};
+
+// Drops premiums above intrinsic + max time value and flags premiums that rise with OTM distance.
+// Rows that break monotonicity are kept: it is unclear which side of the pair is wrong.
+export const checkOptionPlausibility = <T extends OptionQuotePayload>(
+  options: T[],
+  underlyingPrice: number,
+  expiration: string,
+  contractType: ContractType
+): { options: T[]; warnings: string[] } => {
+  const warnings: string[] = [];
+  const years = getDaysToExpiration(expiration) / 365;
+  const maxTimeValue = 0.4 * underlyingPrice * MAX_PLAUSIBLE_IV * Math.sqrt(years);
+
+  const kept = options.filter(o => {
+    const intrinsic = Math.max(0, contractType === 'put' ? o.strike - underlyingPrice : underlyingPrice - o.strike);
+    const cap = intrinsic + maxTimeValue;
+    if (o.premium <= cap) return true;
+    warnings.push(`$${o.strike}: 权利金 $${o.premium} 高于内在价值 + 时间价值上限 ($${cap.toFixed(2)})，疑似误读，已剔除`);
+    return false;
+  });
+
+  // Nearest-to-money first: puts get further OTM as strikes fall, calls as strikes rise
+  const byDistance = [...kept].sort((a, b) => contractType === 'put' ? b.strike - a.strike : a.strike - b.strike);
+  for (let i = 1; i < byDistance.length; i++) {
+    const nearer = byDistance[i - 1];
+    const farther = byDistance[i];
+    if (farther.premium > nearer.premium + MONOTONIC_TOLERANCE) {
+      warnings.push(`$${farther.strike} 权利金 ($${farther.premium}) 高于更接近平值的 $${nearer.strike} ($${nearer.premium})，报价可能错配`);
+    }
+  }
+
+  return { options: kept, warnings };
+};
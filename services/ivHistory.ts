@@ -0,0 +1,129 @@
+import { IvObservation, VolatilityMetrics } from "../types.ts";
+import { calculateIvStats, getIVStatus, IV_HISTORY_LOOKBACK } from "../utils/calculations.ts";
+import { toEastern } from "../utils/marketCalendar.ts";
+import { now } from "../utils/clock.ts";
+import { isReplaying } from "./recorder.ts";
+import { fetchPolygonDailyBars } from "./polygonService.ts";
+
+// Locally maintained daily IV history (localStorage), so IV rank / percentile come from
+// observed data instead of a scraped 52-week range.
+// - 'atm:<TICKER>:<TENOR>': the loaded chain's ATM IV, one reading per session day (latest wins),
+//   kept per tenor bucket so a 0DTE reading is never ranked against a 45 DTE one. Only chains with
+//   a strike near spot are recorded.
+// - 'vxn': the VXN index, seeded from Polygon's I:VXN daily bars where the plan includes indices
+// ATM series are not seeded: option chains have no daily-IV aggregate to back-fill from, so each
+// bucket builds up from use and shows no rank until it has MIN_IV_HISTORY_DAYS readings.
+
+const STORAGE_KEY = "iv_history";
+const SEEDED_KEY = "iv_history_seeded"; // series -> session date of the last seeding attempt
+
+// A little over the rank lookback, so trimming never cuts into it
+const MAX_OBSERVATIONS = IV_HISTORY_LOOKBACK + 30;
+
+export type IvSeries = 'atm' | 'vxn';
+
+// Upper DTE bound of each ATM tenor bucket
+const ATM_TENOR_BUCKETS: { maxDte: number; label: string }[] = [
+  { maxDte: 7, label: '≤7D' },
+  { maxDte: 21, label: '8-21D' },
+  { maxDte: 45, label: '22-45D' },
+  { maxDte: 90, label: '46-90D' },
+  { maxDte: Infinity, label: '>90D' },
+];
+
+export const atmTenorBucket = (daysToExpiration: number): string =>
+  ATM_TENOR_BUCKETS.find(b => daysToExpiration <= b.maxDte)!.label;
+
+export const ivSeriesKey = (series: IvSeries, ticker?: string, tenor?: string): string =>
+  series === 'atm' ? `atm:${ticker}:${tenor}` : 'vxn';
+
+const readAll = (storageKey: string): Record<string, any> => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) || '{}');
+  } catch (e) {
+    console.warn("Invalid IV history, ignoring", e);
+    return {};
+  }
+};
+
+const writeSeries = (key: string, observations: IvObservation[]) => {
+  const all = readAll(STORAGE_KEY);
+  all[key] = observations.slice(-MAX_OBSERVATIONS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("IV history write failed", e);
+  }
+};
+
+// Oldest first
+export const loadIvHistory = (key: string): IvObservation[] => {
+  const series = readAll(STORAGE_KEY)[key];
+  return Array.isArray(series) ? series : [];
+};
+
+const sessionDate = () => toEastern(now()).date;
+
+// Today's reading for a series. Replayed sessions are not real observations and are never stored.
+export const recordIvObservation = (key: string, iv: number, date: string = sessionDate()): IvObservation[] => {
+  const history = loadIvHistory(key);
+  if (isReplaying() || !(iv > 0)) return history;
+  const next = [...history.filter(o => o.date !== date), { date, iv }].sort((a, b) => a.date.localeCompare(b.date));
+  writeSeries(key, next);
+  return next;
+};
+
+// Merge back-filled readings; days the app observed itself are kept as they are
+export const seedIvHistory = (key: string, seed: IvObservation[]): IvObservation[] => {
+  const history = loadIvHistory(key);
+  const observed = new Set(history.filter(o => !o.seeded).map(o => o.date));
+  const byDate = new Map(history.map(o => [o.date, o]));
+  seed.filter(o => o.iv > 0 && !observed.has(o.date)).forEach(o => byDate.set(o.date, { ...o, seeded: true }));
+  const next = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  writeSeries(key, next);
+  return next;
+};
+
+// Seed at most once per session day: index bars need a plan that includes them, and a
+// rejected request shouldn't be retried on every fetch.
+export const seedIvHistoryOnce = async (key: string, loader: () => Promise<IvObservation[]>): Promise<IvObservation[]> => {
+  const attempts = readAll(SEEDED_KEY);
+  const today = sessionDate();
+  if (isReplaying() || attempts[key] === today) return loadIvHistory(key);
+  attempts[key] = today;
+  localStorage.setItem(SEEDED_KEY, JSON.stringify(attempts));
+  try {
+    return seedIvHistory(key, await loader());
+  } catch (e) {
+    console.warn(`IV history seeding failed for ${key}`, e);
+    return loadIvHistory(key);
+  }
+};
+
+const VXN_INDEX_TICKER = "I:VXN";
+
+// A year of sessions plus holidays
+const SEED_LOOKBACK_DAYS = 380;
+
+export const seedVxnFromPolygon = (apiKey: string): Promise<IvObservation[]> =>
+  seedIvHistoryOnce(ivSeriesKey('vxn'), async () =>
+    (await fetchPolygonDailyBars(apiKey, VXN_INDEX_TICKER, SEED_LOOKBACK_DAYS)).map(bar => ({ date: bar.date, iv: bar.close / 100 })));
+
+// Replace a searched 52-week range (and its rank) with one computed from the history, when
+// there is enough of it. VolatilityMetrics are in index points; the history is decimal.
+export const applyIvHistory = (metrics: VolatilityMetrics, history: IvObservation[]): VolatilityMetrics => {
+  const stats = calculateIvStats(history.map(o => o.iv), metrics.currentIV / 100);
+  if (!stats) return { ...metrics, rankSource: 'search' };
+  const status = getIVStatus(stats.rank);
+  return {
+    ...metrics,
+    highIV: stats.high * 100,
+    lowIV: stats.low * 100,
+    rank: stats.rank,
+    status: status.msg,
+    statusColor: status.color,
+    rankSource: 'history',
+    percentile: stats.percentile,
+    historyDays: stats.days,
+  };
+};
@@ -1,40 +1,324 @@
-import { GeminiResponseData } from "../types.ts";
-import { calculateDynamicTargets } from "../utils/calculations.ts";
+import { GeminiResponseData, MarketDataProvider, PolygonEntitlements, PolygonPlan, QuoteTimeframe, RateLimitPlan, SigmaEstimate, SigmaInputs } from "../types.ts";
+import { calculateDynamicTargets, calculateRealizedVolatility, resolveSigma } from "../utils/calculations.ts";
+import { impliedVolatility } from "../utils/blackScholes.ts";
+import { shiftDate, toEastern } from "../utils/marketCalendar.ts";
+import { now } from "../utils/clock.ts";
+import { getTickerInfo, resolveStrikeIncrement } from "../utils/tickers.ts";
+import { dataFetch, isReplaying } from "./recorder.ts";
+import { withCache } from "./responseCache.ts";
+import { createRequestQueue, parseRetryAfter } from "./requestQueue.ts";
+import { DataServiceError, errorFromResponse, toDataServiceError } from "./errors.ts";
+import { POLYGON_WS_BASE, occSymbol } from "./polygonStream.ts";
 
 const BASE_URL = "https://api.polygon.io";
 
-// 1. Validate API Key
-export const validateApiKey = async (apiKey: string): Promise<{valid: boolean, message?: string}> => {
+// Safety cap on cursor pagination (250 contracts per snapshot page)
+const MAX_PAGES = 40;
+
+// Plan limits. The free (Basic) plan allows 5 requests per minute; paid plans are unmetered.
+export const POLYGON_RATE_LIMITS: Record<PolygonPlan, RateLimitPlan> = {
+  free: { callsPerMinute: 5, maxConcurrent: 1 },
+  paid: { callsPerMinute: Infinity, maxConcurrent: 6 },
+};
+
+const MAX_RATE_LIMIT_RETRIES = 4;
+const BACKOFF_BASE_MS = 15 * 1000;
+
+const polygonQueue = createRequestQueue(POLYGON_RATE_LIMITS.free);
+
+export const setPolygonPlan = (plan: PolygonPlan) => polygonQueue.setPlan(POLYGON_RATE_LIMITS[plan]);
+export const subscribePolygonQueue = polygonQueue.subscribe;
+
+// Every Polygon request goes through the plan's queue. A 429 pauses the whole queue for
+// Retry-After (or an exponential backoff when absent) and the request is retried.
+async function polygonFetch(url: string): Promise<Response> {
+  // Fixtures don't consume quota
+  if (isReplaying()) return dataFetch(url);
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await polygonQueue.run(() => dataFetch(url));
+    } catch (e) {
+      throw toDataServiceError(e, 'polygon');
+    }
+    if (res.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) return res;
+    const wait = parseRetryAfter(res.headers.get('Retry-After')) ?? BACKOFF_BASE_MS * 2 ** attempt;
+    console.warn(`Polygon 429, retrying in ${Math.round(wait / 1000)}s (attempt ${attempt + 1})`);
+    polygonQueue.pause(wait);
+  }
+}
+
+// Helper: Follow `next_url` cursors from an already-fetched first page.
+// Polygon's cursor URLs omit the key, so it is re-appended on every request.
+// `truncated` is set when the page cap stopped the walk before the last cursor.
+async function collectPages(
+  firstPage: any,
+  apiKey: string,
+  onPage?: (page: number, total: number) => void,
+  maxPages: number = MAX_PAGES
+): Promise<{ results: any[]; truncated: boolean }> {
+  const results: any[] = [...(firstPage.results || [])];
+  let nextUrl: string | undefined = firstPage.next_url;
+  let page = 1;
+
+  while (nextUrl && page < maxPages) {
+    page++;
+    const res = await polygonFetch(`${nextUrl}${nextUrl.includes('?') ? '&' : '?'}apiKey=${apiKey}`);
+    if (!res.ok) throw errorFromResponse('polygon', res, `Polygon 分页请求错误 (第 ${page} 页)`);
+    
+    const json = await res.json();
+    results.push(...(json.results || []));
+    nextUrl = json.next_url;
+    onPage?.(page, results.length);
+  }
+
+  if (nextUrl) console.warn(`Polygon pagination stopped at ${maxPages} pages; results truncated.`);
+  return { results, truncated: !!nextUrl };
+}
+
+// --- Plan entitlements ---
+
+// Deepest first; the first reachable window wins. Kept short so a Basic key stays within 5 calls/minute.
+const AGGREGATE_PROBE_YEARS = [5, 2];
+
+const WS_PROBE_TIMEOUT_MS = 5000;
+
+// Known entitlements of the active key; null until probed (strategies then try the snapshot first)
+let entitlements: PolygonEntitlements | null = null;
+
+export const setPolygonEntitlements = (profile: PolygonEntitlements | null) => {
+  entitlements = profile;
+};
+
+// Only an explicit refusal means the plan lacks an endpoint. Anything else that fails (network,
+// 429 after retries, 5xx) throws: the entitlement is unknown, not absent.
+const isNotEntitled = (res: Response): boolean => res.status === 401 || res.status === 403;
+
+const probeFailed = (res: Response, what: string): DataServiceError =>
+  errorFromResponse('polygon', res, `Polygon 套餐权限检测失败 (${what})`);
+
+async function probeSnapshot(apiKey: string, ticker: string): Promise<{ snapshot: boolean; quotes: QuoteTimeframe }> {
+  const res = await polygonFetch(`${BASE_URL}/v3/snapshot/options/${ticker}?limit=1&apiKey=${apiKey}`);
+  if (isNotEntitled(res)) return { snapshot: false, quotes: 'none' };
+  if (!res.ok) throw probeFailed(res, 'snapshot');
+  const contract = (await res.json()).results?.[0];
+  // Snapshot quotes carry their timeframe; plans without quotes omit last_quote entirely
+  const timeframe = contract?.last_quote?.timeframe;
+  if (!timeframe) return { snapshot: true, quotes: 'none' };
+  return { snapshot: true, quotes: timeframe === 'REAL-TIME' ? 'realtime' : 'delayed' };
+}
+
+async function probeAggregatesYears(apiKey: string, ticker: string): Promise<number> {
+  for (const years of AGGREGATE_PROBE_YEARS) {
+    const from = new Date(now().getTime() - years * 365 * 24 * 3600 * 1000);
+    const to = new Date(from.getTime() + 7 * 24 * 3600 * 1000);
+    const fmt = (d: Date) => d.toISOString().split('T')[0];
+    const res = await polygonFetch(`${BASE_URL}/v2/aggs/ticker/${ticker}/range/1/day/${fmt(from)}/${fmt(to)}?adjusted=true&limit=10&apiKey=${apiKey}`);
+    if (!res.ok && !isNotEntitled(res)) throw probeFailed(res, 'aggregates');
+    if (res.ok && ((await res.json()).results?.length ?? 0) > 0) return years;
+  }
+  return 0;
+}
+
+// Connect and authenticate, then close. Polygon answers auth with a status event.
+const probeWebSocket = (apiKey: string, url: string): Promise<boolean> => {
+  if (typeof WebSocket === 'undefined') return Promise.resolve(false);
+  return new Promise(resolve => {
+    let settled = false;
+    const ws = new WebSocket(url);
+    const finish = (ok: boolean) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      ws.close();
+      resolve(ok);
+    };
+    const timer = setTimeout(() => finish(false), WS_PROBE_TIMEOUT_MS);
+    ws.onerror = () => finish(false);
+    ws.onmessage = (event) => {
+      let messages: any[] = [];
+      try { messages = JSON.parse(event.data); } catch (e) { return; }
+      for (const m of messages) {
+        if (m.ev !== 'status') continue;
+        if (m.status === 'connected') ws.send(JSON.stringify({ action: 'auth', params: apiKey }));
+        else if (m.status === 'auth_success') finish(true);
+        else if (m.status === 'auth_failed') finish(false);
+      }
+    };
+  });
+};
+
+// Probe what the key can access. Each HTTP probe goes through the rate-limit queue.
+async function probeEntitlements(apiKey: string, ticker: string): Promise<PolygonEntitlements> {
+  const { snapshot, quotes } = await probeSnapshot(apiKey, ticker);
+  const lastTradeRes = await polygonFetch(`${BASE_URL}/v2/last/trade/${ticker}?apiKey=${apiKey}`);
+  if (!lastTradeRes.ok && !isNotEntitled(lastTradeRes)) throw probeFailed(lastTradeRes, 'last trade');
+  const aggregatesYears = await probeAggregatesYears(apiKey, ticker);
+  // Fixtures have no socket to replay
+  const websocket = isReplaying() ? false : await probeWebSocket(apiKey, `${POLYGON_WS_BASE[quotes === 'realtime' ? 'realtime' : 'delayed']}/options`);
+  return {
+    snapshot,
+    quotes,
+    lastTrade: lastTradeRes.ok,
+    aggregatesYears,
+    websocket,
+    checkedAt: now().toISOString(),
+  };
+}
+
+// 1. Validate API Key (and probe the plan's entitlements once it is accepted).
+// A probe that fails leaves the entitlements unknown; the key itself was still accepted.
+export const validateApiKey = async (
+  apiKey: string,
+  ticker: string = 'QQQ'
+): Promise<{valid: boolean, message?: string, entitlements?: PolygonEntitlements}> => {
   try {
     const cleanKey = apiKey.trim();
     const url = `${BASE_URL}/v3/reference/tickers?market=stocks&active=true&limit=1&apiKey=${cleanKey}`;
-    
-    const res = await fetch(url);
-    
+
+    const res = await polygonFetch(url);
+
     if (res.status === 401 || res.status === 403) {
       return { valid: false, message: "Key 被拒绝 (401/403)。请检查 Key 是否正确或已过期。" };
     }
-    
+
     if (!res.ok) {
       return { valid: false, message: `网络错误: ${res.status} ${res.statusText}` };
     }
 
     const data = await res.json();
     if (data.status === "OK" || Array.isArray(data.results)) {
-      return { valid: true, message: "Key 有效！" };
+      try {
+        return { valid: true, message: "验证成功！API Key 有效。", entitlements: await probeEntitlements(cleanKey, ticker) };
+      } catch (e: any) {
+        console.warn("Polygon entitlement probe failed", e);
+        return { valid: true, message: `Key 有效，但套餐权限检测失败 (${e.message || "未知错误"})，将在请求时自动降级。` };
+      }
     }
-    
+
     return { valid: false, message: "未知的响应格式" };
   } catch (e: any) {
     return { valid: false, message: e.message || "验证失败" };
   }
 };
 
+// Helper: Previous-day bar for a single ticker (stock or option contract). `t` is the bar start (ms).
+async function fetchPrevClose(apiKey: string, ticker: string): Promise<{ close: number; t?: number } | undefined> {
+    const prevUrl = `${BASE_URL}/v2/aggs/ticker/${ticker}/prev?adjusted=true&apiKey=${apiKey}`;
+    const prevRes = await polygonFetch(prevUrl);
+    if (prevRes.status === 429) throw errorFromResponse('polygon', prevRes, `Polygon 请求超出速率限制: ${ticker}`);
+    if (!prevRes.ok) return undefined;
+    const prevData = await prevRes.json();
+    const bar = prevData.results?.[0];
+    return typeof bar?.c === 'number' ? { close: bar.c, t: bar.t } : undefined;
+}
+
+// Previous daily bar -> option row (the only price the free tier gets per contract)
+const prevCloseToOption = (strike: number, prev: { close: number; t?: number }) => ({
+    strike: strike,
+    premium: prev.close, // Close price
+    last: prev.close,    // No bid/ask on this tier
+    iv: undefined, // Not available in Aggs
+    delta: undefined, // Not available in Aggs, undefined ensures UI shows N/A instead of 100%
+    provenance: {
+        source: 'polygon',
+        basis: 'prev_close' as const,
+        quotedAt: prev.t ? new Date(prev.t).toISOString() : undefined
+    }
+});
+
+// Polygon snapshot timestamps are Unix nanoseconds
+const nsToIso = (ns?: number): string | undefined =>
+    typeof ns === 'number' && ns > 0 ? new Date(Math.floor(ns / 1e6)).toISOString() : undefined;
+
+export interface DailyBar {
+  date: string; // New York session date
+  close: number;
+}
+
+// Daily bars over the last `lookbackDays` calendar days (Aggregates API). Indices use the
+// I: prefix (e.g. I:VXN) and need a plan that includes them.
+const loadPolygonDailyBars = async (apiKey: string, ticker: string, lookbackDays: number): Promise<DailyBar[]> => {
+  const cleanKey = apiKey.trim();
+  const to = now();
+  const from = new Date(to.getTime() - lookbackDays * 24 * 3600 * 1000);
+  const fmt = (d: Date) => d.toISOString().split('T')[0];
+  
+  const url = `${BASE_URL}/v2/aggs/ticker/${ticker}/range/1/day/${fmt(from)}/${fmt(to)}?adjusted=true&sort=asc&limit=5000&apiKey=${cleanKey}`;
+  const res = await polygonFetch(url);
+  if (!res.ok) throw errorFromResponse('polygon', res, "Polygon Aggregates 错误");
+  
+  const json = await res.json();
+  return (json.results || [])
+    .filter((bar: any) => typeof bar.c === 'number' && typeof bar.t === 'number')
+    .map((bar: any) => ({ date: toEastern(new Date(bar.t)).date, close: bar.c }));
+};
+
+// Daily closes for the underlying over the last `lookbackDays` calendar days
+const loadPolygonDailyCloses = async (apiKey: string, ticker: string, lookbackDays: number = 45): Promise<number[]> =>
+  (await loadPolygonDailyBars(apiKey, ticker, lookbackDays)).map(bar => bar.close);
+
+export const fetchPolygonDailyBars = (apiKey: string, ticker: string, lookbackDays: number): Promise<DailyBar[]> =>
+  withCache(
+    { provider: 'polygon', endpoint: 'aggregates', ticker, variant: `${lookbackDays}d-bars` },
+    () => loadPolygonDailyBars(apiKey, ticker, lookbackDays),
+    bars => bars.length > 0
+  );
+
+export const fetchPolygonDailyCloses = (apiKey: string, ticker: string, lookbackDays: number = 45): Promise<number[]> =>
+  withCache(
+    { provider: 'polygon', endpoint: 'aggregates', ticker, variant: `${lookbackDays}d` },
+    () => loadPolygonDailyCloses(apiKey, ticker, lookbackDays),
+    closes => closes.length > 0
+  );
+
 // Helper: Fallback Strategy for Free Tier / Restricted Keys
-async function fetchFreeTierOptions(apiKey: string, targetDate: string, currentPrice: number, contractType: 'put' | 'call'): Promise<any[]> {
+async function fetchFreeTierOptions(
+    apiKey: string,
+    ticker: string,
+    targetDate: string,
+    currentPrice: number,
+    contractType: 'put' | 'call',
+    sigmaInputs?: SigmaInputs
+): Promise<{ options: any[], targetSigma: SigmaEstimate, warnings: string[] }> {
+    
+    // A. Fetch Contract List (Reference API)
+    // Adjust lte/gte based on type.
+    let rangeParam = '';
+    if (contractType === 'put') {
+        rangeParam = `strike_price.lte=${currentPrice}&sort=strike_price&order=desc`;
+    } else {
+        rangeParam = `strike_price.gte=${currentPrice}&sort=strike_price&order=asc`;
+    }
+
+    const contractsUrl = `${BASE_URL}/v3/reference/options/contracts?underlying_ticker=${ticker}&contract_type=${contractType}&expiration_date=${targetDate}&${rangeParam}&limit=500&apiKey=${apiKey}`;
     
-    // A. Calculate Ideal Targets
-    const targets = calculateDynamicTargets(currentPrice, targetDate);
+    const contractsRes = await polygonFetch(contractsUrl);
+    if (!contractsRes.ok) throw errorFromResponse('polygon', contractsRes, "获取合约列表失败 (Free Tier Fallback)");
+    
+    const contractsData = await contractsRes.json();
+    const allContracts = contractsData.results || [];
+
+    // B. Resolve sigma in the configured order of preference (only the winning source is fetched).
+    // Sorted nearest-the-money first, so the first contract is the ATM strike.
+    const atmContract = allContracts[0];
+    const targetSigma = await resolveSigma({
+        atm_iv: async () => {
+            if (!atmContract) return undefined;
+            const atmPremium = (await fetchPrevClose(apiKey, atmContract.ticker))?.close;
+            if (!atmPremium) return undefined;
+            const T = calculateDynamicTargets(currentPrice, targetDate).daysToExpiration / 365;
+            return impliedVolatility(contractType, atmPremium, currentPrice, atmContract.strike_price, T);
+        },
+        vxn: sigmaInputs?.vxn,
+        realized: async () => calculateRealizedVolatility(await fetchPolygonDailyCloses(apiKey, ticker)),
+    }, sigmaInputs?.preference);
+    
+    if (allContracts.length === 0) return { options: [], targetSigma, warnings: [] };
+
+    // C. Calculate Ideal Targets
+    const targets = calculateDynamicTargets(currentPrice, targetDate, targetSigma.sigma);
     // Note: This logic assumes Puts (below price). For Calls, logic needs inversion, but for simplicity we'll keep similar spread logic or just use close targets.
     // If contractType is call, we want strikes ABOVE price.
     
@@ -54,27 +338,8 @@ async function fetchFreeTierOptions(apiKey: string, targetDate: string, currentP
             { label: "Safe", val: targets.safe }
         ];
     }
-    
-    // B. Fetch Contract List (Reference API)
-    // Adjust lte/gte based on type.
-    let rangeParam = '';
-    if (contractType === 'put') {
-        rangeParam = `strike_price.lte=${currentPrice}&sort=strike_price&order=desc`;
-    } else {
-        rangeParam = `strike_price.gte=${currentPrice}&sort=strike_price&order=asc`;
-    }
-
-    const contractsUrl = `${BASE_URL}/v3/reference/options/contracts?underlying_ticker=QQQ&contract_type=${contractType}&expiration_date=${targetDate}&${rangeParam}&limit=500&apiKey=${apiKey}`;
-    
-    const contractsRes = await fetch(contractsUrl);
-    if (!contractsRes.ok) throw new Error("获取合约列表失败 (Free Tier Fallback)。");
-    
-    const contractsData = await contractsRes.json();
-    const allContracts = contractsData.results || [];
-    
-    if (allContracts.length === 0) return [];
 
-    // C. Find Closest Match for each Ideal Target
+    // D. Find Closest Match for each Ideal Target
     const selectedTickers = new Set<string>();
     const selectedContracts: any[] = [];
 
@@ -90,139 +355,312 @@ async function fetchFreeTierOptions(apiKey: string, targetDate: string, currentP
         }
     });
 
-    // D. Fetch Prices
+    // E. Fetch Prices (queued together; the rate-limit queue paces them)
     const options: any[] = [];
+    const warnings: string[] = [];
     
-    for (const contract of selectedContracts) {
+    await Promise.all(selectedContracts.map(async (contract) => {
         const ticker = contract.ticker;
         const strike = contract.strike_price;
         
         // Fetch Previous Close (Aggs API) - Most reliable free endpoint
-        const prevUrl = `${BASE_URL}/v2/aggs/ticker/${ticker}/prev?adjusted=true&apiKey=${apiKey}`;
         try {
-            const prevRes = await fetch(prevUrl);
-            if (prevRes.ok) {
-                const prevData = await prevRes.json();
-                const res = prevData.results?.[0];
-                if (res) {
-                    options.push({
-                        strike: strike,
-                        premium: res.c, // Close price
-                        iv: undefined, // Not available in Aggs
-                        delta: undefined // Not available in Aggs, undefined ensures UI shows N/A instead of 100%
-                    });
-                }
+            const prev = await fetchPrevClose(apiKey, ticker);
+            if (prev) {
+                options.push(prevCloseToOption(strike, prev));
             }
-        } catch (e) {
+        } catch (e: any) {
             console.warn(`Failed to fetch price for ${ticker}`, e);
+            warnings.push(`$${strike}: ${e.message}`);
         }
-    }
+    }));
     
-    return options.sort((a,b) => contractType === 'call' ? a.strike - b.strike : b.strike - a.strike);
+    return {
+        options: options.sort((a,b) => contractType === 'call' ? a.strike - b.strike : b.strike - a.strike),
+        targetSigma,
+        warnings
+    };
 }
 
-export const fetchPolygonData = async (
-  apiKey: string,
-  targetDate: string,
-  contractType: 'put' | 'call' = 'put'
-): Promise<GeminiResponseData> => {
+// 2. Underlying Price (Last Trade, falling back to Previous Close)
+const loadPolygonPrice = async (apiKey: string, ticker: string = 'QQQ'): Promise<number> => {
   const cleanKey = apiKey.trim();
-  
-  // ----------------------------------------
-  // STEP 1: Fetch Underlying Price
-  // ----------------------------------------
   let currentPrice = 0;
   
-  try {
-    const priceUrl = `${BASE_URL}/v2/last/trade/QQQ?apiKey=${cleanKey}`;
-    const priceRes = await fetch(priceUrl);
-    if (priceRes.ok) {
-        const json = await priceRes.json();
-        currentPrice = json.results?.p;
+  // Plans without last trade would only spend a rate-limited call on a 403
+  if (entitlements?.lastTrade !== false) {
+    try {
+      const priceUrl = `${BASE_URL}/v2/last/trade/${ticker}?apiKey=${cleanKey}`;
+      const priceRes = await polygonFetch(priceUrl);
+      if (priceRes.ok) {
+          const json = await priceRes.json();
+          currentPrice = json.results?.p;
+      }
+    } catch (e) { 
+      console.warn("Polygon Last Trade failed, trying Prev Close");
     }
-  } catch (e) { 
-    console.warn("Polygon Last Trade failed, trying Prev Close");
   }
 
   if (!currentPrice) {
-      const prevUrl = `${BASE_URL}/v2/aggs/ticker/QQQ/prev?adjusted=true&apiKey=${cleanKey}`;
-      const prevRes = await fetch(prevUrl);
+      const prevUrl = `${BASE_URL}/v2/aggs/ticker/${ticker}/prev?adjusted=true&apiKey=${cleanKey}`;
+      const prevRes = await polygonFetch(prevUrl);
       if (!prevRes.ok) {
-         throw new Error("无法获取 QQQ 价格，请检查 API Key 是否有效。");
+         throw errorFromResponse('polygon', prevRes, `无法获取 ${ticker} 价格`);
       }
       const prevJson = await prevRes.json();
       currentPrice = prevJson.results?.[0]?.c;
   }
 
   if (!currentPrice) {
-    throw new Error("Polygon 未返回 QQQ 价格数据。");
+    throw new DataServiceError('parse', 'polygon', `Polygon 未返回 ${ticker} 价格数据。`);
   }
 
-  // ----------------------------------------
-  // STEP 2: Fetch Option Chain
-  // ----------------------------------------
-  try {
-      // Prepare Snapshot URL
-      let minStrike = 0;
-      let maxStrike = 0;
-
-      if (contractType === 'put') {
-          minStrike = Math.floor(currentPrice * 0.80);
-          maxStrike = Math.ceil(currentPrice * 1.02);
-      } else {
-          // For calls, we generally want above current price, maybe slightly below (ITM)
-          minStrike = Math.floor(currentPrice * 0.95);
-          maxStrike = Math.ceil(currentPrice * 1.20);
-      }
-      
-      const chainUrl = `${BASE_URL}/v3/snapshot/options/QQQ?expiration_date=${targetDate}&contract_type=${contractType}&strike_price.gte=${minStrike}&strike_price.lte=${maxStrike}&limit=250&apiKey=${cleanKey}`;
-      
-      const chainRes = await fetch(chainUrl);
-      
-      // *** FREE TIER FALLBACK ***
-      if (chainRes.status === 403) {
-         console.warn("Snapshot API Forbidden (403). Switching to Smart Strategy.");
-         const fallbackOptions = await fetchFreeTierOptions(cleanKey, targetDate, currentPrice, contractType);
-         return {
-            currentPrice,
-            options: fallbackOptions,
-            sources: [{ uri: "https://polygon.io", title: "Polygon.io API (Free Tier 智能选筹)" }]
-         };
-      }
+  return currentPrice;
+};
 
-      if (!chainRes.ok) {
-         throw new Error(`Polygon Snapshot 错误: ${chainRes.statusText}`);
-      }
+export const fetchPolygonPrice = (apiKey: string, ticker: string = 'QQQ'): Promise<number> =>
+  withCache({ provider: 'polygon', endpoint: 'price', ticker }, () => loadPolygonPrice(apiKey, ticker));
 
-      const chainJson = await chainRes.json();
-      const results = chainJson.results || [];
+// 3. Listed Expirations (Reference API)
+// Every listed expiration carries near-the-money strikes, so calls within a narrow band around
+// spot are enough to enumerate the dates: one or two pages instead of the whole contract list.
+// The band spans at least a few strike increments, so wide-spaced (low-priced or thinly listed)
+// names still have strikes in it; if it comes back empty anyway, the unbanded list is used.
+// Bounded to `maxDays` ahead: far-dated LEAPS would otherwise add pages of contracts.
+const EXPIRATION_STRIKE_BAND = 0.02;
+const EXPIRATION_BAND_MIN_STRIKES = 2; // Half-width floor, in strike increments
+const EXPIRATION_MAX_PAGES = 3;
 
-      const options = results.map((contract: any) => {
-        const strike = contract.details?.strike_price;
-        
-        let premium = contract.day?.close; 
-        if (contract.day && contract.day.l) premium = contract.day.l;
-        if (contract.last_quote && contract.last_quote.b > 0) premium = contract.last_quote.b;
-
-        return {
-          strike,
-          premium,
-          iv: contract.implied_volatility,
-          delta: contract.greeks?.delta
-        };
-      }).filter((o: any) => o.strike && o.premium > 0);
-
-      // Sort: Puts descending, Calls ascending
-      options.sort((a: any, b: any) => contractType === 'call' ? a.strike - b.strike : b.strike - a.strike);
-      const topOptions = options.slice(0, 15);
+export interface PolygonExpirations {
+  dates: string[];
+  truncated: boolean;
+}
 
-      return {
+const loadPolygonExpirations = async (apiKey: string, ticker: string = 'QQQ', maxDays: number = 120): Promise<PolygonExpirations> => {
+  const cleanKey = apiKey.trim();
+  const spot = await fetchPolygonPrice(cleanKey, ticker);
+  const today = toEastern(now()).date;
+  const halfWidth = Math.max(spot * EXPIRATION_STRIKE_BAND, EXPIRATION_BAND_MIN_STRIKES * resolveStrikeIncrement(getTickerInfo(ticker), spot));
+  const band = `&strike_price.gte=${(spot - halfWidth).toFixed(2)}&strike_price.lte=${(spot + halfWidth).toFixed(2)}`;
+  const query = async (strikes: string) => {
+    const url = `${BASE_URL}/v3/reference/options/contracts?underlying_ticker=${ticker}&contract_type=call${strikes}&expired=false&expiration_date.gte=${today}&expiration_date.lte=${shiftDate(today, maxDays)}&sort=expiration_date&order=asc&limit=1000&apiKey=${cleanKey}`;
+    const res = await polygonFetch(url);
+    if (!res.ok) throw errorFromResponse('polygon', res, "Polygon 到期日列表错误");
+    return collectPages(await res.json(), cleanKey, undefined, EXPIRATION_MAX_PAGES);
+  };
+
+  let page = await query(band);
+  if (page.results.length === 0) page = await query('');
+  const dates = page.results.map((c: any) => c.expiration_date).filter(Boolean);
+  return { dates: Array.from(new Set<string>(dates)).sort(), truncated: page.truncated };
+};
+
+export const fetchPolygonExpirations = (apiKey: string, ticker: string = 'QQQ', maxDays: number = 120): Promise<PolygonExpirations> =>
+  withCache(
+    { provider: 'polygon', endpoint: 'expirations', ticker, variant: `${maxDays}d-atm` },
+    () => loadPolygonExpirations(apiKey, ticker, maxDays),
+    list => list.dates.length > 0
+  );
+
+// Snapshot contract -> option row
+const snapshotToOption = (contract: any) => {
+  const strike = contract.details?.strike_price;
+  
+  const quote = contract.last_quote || {};
+  const bid = quote.bid ?? quote.b;
+  const ask = quote.ask ?? quote.a;
+  const last = contract.last_trade?.price ?? contract.day?.close;
+
+  // Default premium (bid when quoted); App re-derives it from the fill assumption
+  let premium = contract.day?.close; 
+  if (contract.day && contract.day.l) premium = contract.day.l;
+  if (bid > 0) premium = bid;
+
+  // What the fill price will actually rest on: a two-sided quote, else the last print, else the daily bar
+  const provenance = bid > 0
+    ? { source: 'polygon', basis: 'quote' as const, quotedAt: nsToIso(quote.last_updated), delayed: quote.timeframe === 'DELAYED' }
+    : contract.last_trade?.price !== undefined
+      ? { source: 'polygon', basis: 'last_trade' as const, quotedAt: nsToIso(contract.last_trade.sip_timestamp), delayed: contract.last_trade.timeframe === 'DELAYED' }
+      : { source: 'polygon', basis: 'day_close' as const, quotedAt: nsToIso(contract.day?.last_updated) };
+
+  return {
+    strike,
+    premium,
+    bid,
+    ask,
+    last,
+    mid: quote.midpoint,
+    iv: contract.implied_volatility,
+    delta: contract.greeks?.delta,
+    gamma: contract.greeks?.gamma,
+    theta: contract.greeks?.theta,
+    vega: contract.greeks?.vega,
+    provenance
+  };
+};
+
+// 4. Option Chain (Snapshot, falling back to Free Tier targeted strikes)
+// Returns every strike for the expiration; the table/chart filters decide what is shown.
+const loadPolygonChain = async (
+  apiKey: string,
+  ticker: string,
+  targetDate: string,
+  currentPrice: number,
+  contractType: 'put' | 'call' = 'put',
+  onProgress?: (msg: string) => void,
+  sigmaInputs?: SigmaInputs
+): Promise<GeminiResponseData> => {
+  const cleanKey = apiKey.trim();
+
+  const freeTierChain = async (): Promise<GeminiResponseData> => {
+     const fallback = await fetchFreeTierOptions(cleanKey, ticker, targetDate, currentPrice, contractType, sigmaInputs);
+     return {
         currentPrice,
-        options: topOptions,
+        options: fallback.options,
+        targetSigma: fallback.targetSigma,
+        sources: [{ uri: "https://polygon.io", title: "Polygon.io API (Free Tier 智能选筹)" }],
+        warnings: fallback.warnings
+     };
+  };
+
+  // Strategy up front when the key's entitlements are known
+  if (entitlements?.snapshot === false) return freeTierChain();
+
+  const chainUrl = `${BASE_URL}/v3/snapshot/options/${ticker}?expiration_date=${targetDate}&contract_type=${contractType}&order=asc&sort=strike_price&limit=250&apiKey=${cleanKey}`;
+  
+  const chainRes = await polygonFetch(chainUrl);
+  
+  // *** FREE TIER FALLBACK *** (key not probed yet)
+  if (chainRes.status === 403) {
+     console.warn("Snapshot API Forbidden (403). Switching to Smart Strategy.");
+     return freeTierChain();
+  }
+
+  if (!chainRes.ok) {
+     throw errorFromResponse('polygon', chainRes, "Polygon Snapshot 错误");
+  }
+
+  const { results, truncated } = await collectPages(await chainRes.json(), cleanKey, (page, total) => {
+    onProgress?.(`正在加载完整期权链... 第 ${page} 页 (${total} 个合约)`);
+  });
+
+  const options = results.map(snapshotToOption).filter((o: any) => o.strike && o.premium > 0);
+
+  // Sort: Puts descending, Calls ascending
+  options.sort((a: any, b: any) => contractType === 'call' ? a.strike - b.strike : b.strike - a.strike);
+
+  return {
+    currentPrice,
+    options,
+    sources: [{ uri: "https://polygon.io", title: "Polygon.io API (Snapshot 官方快照)" }],
+    warnings: truncated ? [`期权链超过 ${MAX_PAGES} 页，仅加载了前 ${results.length} 个合约`] : undefined
+  };
+};
+
+export const fetchPolygonChain = (
+  apiKey: string,
+  ticker: string,
+  targetDate: string,
+  currentPrice: number,
+  contractType: 'put' | 'call' = 'put',
+  onProgress?: (msg: string) => void,
+  sigmaInputs?: SigmaInputs
+): Promise<GeminiResponseData> =>
+  withCache(
+    { provider: 'polygon', endpoint: 'chain', ticker, expiration: targetDate, contractType },
+    () => loadPolygonChain(apiKey, ticker, targetDate, currentPrice, contractType, onProgress, sigmaInputs),
+    data => (data.options?.length ?? 0) > 0
+  );
+
+// 5. Specific Strikes (cross-verification, straddle legs)
+// Snapshot plans get one strike-bounded snapshot page. Otherwise each strike is priced from its
+// previous daily bar by OCC symbol, one call per strike, without listing the chain first.
+const loadPolygonStrikes = async (
+  apiKey: string,
+  ticker: string,
+  targetDate: string,
+  contractType: 'put' | 'call',
+  strikes: number[]
+): Promise<GeminiResponseData> => {
+  const cleanKey = apiKey.trim();
+  const wanted = new Set(strikes);
+  const sortRows = (rows: any[]) => rows.sort((a, b) => contractType === 'call' ? a.strike - b.strike : b.strike - a.strike);
+
+  if (entitlements?.snapshot !== false) {
+    const url = `${BASE_URL}/v3/snapshot/options/${ticker}?expiration_date=${targetDate}&contract_type=${contractType}&strike_price.gte=${Math.min(...strikes)}&strike_price.lte=${Math.max(...strikes)}&order=asc&sort=strike_price&limit=250&apiKey=${cleanKey}`;
+    const res = await polygonFetch(url);
+    if (res.ok) {
+      const { results } = await collectPages(await res.json(), cleanKey);
+      return {
+        options: sortRows(results.map(snapshotToOption).filter((o: any) => wanted.has(o.strike) && o.premium > 0)),
         sources: [{ uri: "https://polygon.io", title: "Polygon.io API (Snapshot 官方快照)" }]
       };
-
-  } catch (e: any) {
-      throw e;
+    }
+    if (res.status !== 403) throw errorFromResponse('polygon', res, "Polygon Snapshot 错误");
   }
-};
\ No newline at end of file
+
+  const options: any[] = [];
+  const warnings: string[] = [];
+  await Promise.all(strikes.map(async (strike) => {
+    try {
+      const prev = await fetchPrevClose(cleanKey, occSymbol(ticker, targetDate, contractType, strike));
+      if (prev) options.push(prevCloseToOption(strike, prev));
+    } catch (e: any) {
+      warnings.push(`$${strike}: ${e.message}`);
+    }
+  }));
+  return {
+    options: sortRows(options),
+    sources: [{ uri: "https://polygon.io", title: "Polygon.io API (Free Tier 前收盘价)" }],
+    warnings
+  };
+};
+
+export const fetchPolygonStrikes = (
+  apiKey: string,
+  ticker: string,
+  targetDate: string,
+  contractType: 'put' | 'call',
+  strikes: number[]
+): Promise<GeminiResponseData> =>
+  withCache(
+    { provider: 'polygon', endpoint: 'chain', ticker, expiration: targetDate, contractType, variant: `strikes:${strikes.join(',')}` },
+    () => loadPolygonStrikes(apiKey, ticker, targetDate, contractType, strikes),
+    data => (data.options?.length ?? 0) > 0
+  );
+
+export const fetchPolygonData = async (
+  apiKey: string,
+  targetDate: string,
+  contractType: 'put' | 'call' = 'put',
+  ticker: string = 'QQQ'
+): Promise<GeminiResponseData> => {
+  const currentPrice = await fetchPolygonPrice(apiKey, ticker);
+  return fetchPolygonChain(apiKey, ticker, targetDate, currentPrice, contractType);
+};
+
+// ========================================================
+// Provider adapter for the market data provider chain
+// ========================================================
+export const createPolygonProvider = (apiKey: string): MarketDataProvider => ({
+  id: 'polygon',
+  label: 'Polygon.io',
+  // Unprobed keys are assumed to have the snapshot (the chain still falls back on a 403)
+  capabilities: {
+    realtime: entitlements ? entitlements.quotes === 'realtime' : true,
+    greeks: entitlements?.snapshot ?? true,
+    fullChain: entitlements?.snapshot ?? true,
+    expirations: true,
+  },
+  isConfigured: () => apiKey.trim().length > 5,
+  getUnderlyingPrice: async (ticker, onProgress) => {
+    onProgress("正在连接 Polygon 官方数据源...");
+    const price = await fetchPolygonPrice(apiKey, ticker.symbol);
+    return { price };
+  },
+  getExpirations: async (ticker) => (await fetchPolygonExpirations(apiKey, ticker.symbol)).dates,
+  getChain: ({ ticker, expiration, contractType, underlyingPrice, onProgress, sigmaInputs, strikes }) =>
+    strikes && strikes.length > 0
+      ? fetchPolygonStrikes(apiKey, ticker.symbol, expiration, contractType, strikes)
+      : fetchPolygonChain(apiKey, ticker.symbol, expiration, underlyingPrice, contractType, onProgress, sigmaInputs),
+});
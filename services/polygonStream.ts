@@ -0,0 +1,141 @@
+import { ContractType, FillAssumption, FlashDirection, OptionRow, StreamState, StreamUpdate } from "../types.ts";
+import { attachGreeks, repriceRow } from "../utils/calculations.ts";
+import { now } from "../utils/clock.ts";
+
+// Live quote streaming over Polygon's WebSocket clusters.
+// Options quotes and the underlying's quote arrive on separate sockets (`/options`, `/stocks`).
+// Quotes are buffered per symbol and handed over at most once per `throttleMs`, so a busy
+// chain re-renders the table a few times a second instead of on every tick.
+
+export const POLYGON_WS_BASE: Record<'realtime' | 'delayed', string> = {
+  realtime: "wss://socket.polygon.io",
+  delayed: "wss://delayed.polygon.io",
+};
+
+const DEFAULT_THROTTLE_MS = 1000;
+
+// Polygon allows 1000 option contracts per connection
+const MAX_STREAM_CONTRACTS = 1000;
+
+export interface StreamOptions {
+  apiKey: string;
+  baseUrl: string;       // e.g. POLYGON_WS_BASE.realtime, or ws://localhost:8765 for the mock server
+  underlying: string;
+  contracts: string[];   // OCC symbols (see occSymbol)
+  onUpdate: (update: StreamUpdate) => void;
+  onState: (state: StreamState, message?: string) => void;
+  throttleMs?: number;
+}
+
+// OCC option symbol as used by Polygon, e.g. O:QQQ250117P00400000
+export const occSymbol = (underlying: string, expiration: string, type: ContractType, strike: number): string => {
+  const [y, m, d] = expiration.split('-');
+  const strikeCode = String(Math.round(strike * 1000)).padStart(8, '0');
+  return `O:${underlying}${y.slice(2)}${m}${d}${type === 'call' ? 'C' : 'P'}${strikeCode}`;
+};
+
+export const openPolygonStream = (opts: StreamOptions): { close: () => void } => {
+  const base = opts.baseUrl.replace(/\/+$/, '');
+  const contracts = opts.contracts.slice(0, MAX_STREAM_CONTRACTS);
+  let pending: StreamUpdate = { quotes: {} };
+  let hasPending = false;
+  let closed = false;
+  let authenticated = 0;
+
+  const connect = (cluster: 'options' | 'stocks', channels: string[]): WebSocket => {
+    const ws = new WebSocket(`${base}/${cluster}`);
+    ws.onmessage = (event) => {
+      let messages: any[] = [];
+      try { messages = JSON.parse(event.data); } catch (e) { return; }
+      for (const m of messages) {
+        if (m.ev === 'status') {
+          if (m.status === 'connected') {
+            ws.send(JSON.stringify({ action: 'auth', params: opts.apiKey }));
+          } else if (m.status === 'auth_success') {
+            ws.send(JSON.stringify({ action: 'subscribe', params: channels.join(',') }));
+            if (++authenticated === 2) opts.onState('live');
+          } else if (m.status === 'auth_failed') {
+            opts.onState('error', `WebSocket 认证失败 (${cluster}): ${m.message || ''}`);
+          }
+          continue;
+        }
+        // Quote event: bp / ap are bid and ask prices
+        if (m.ev !== 'Q' || typeof m.bp !== 'number' || typeof m.ap !== 'number') continue;
+        if (cluster === 'stocks') pending.underlying = (m.bp + m.ap) / 2;
+        else pending.quotes[m.sym] = { bid: m.bp, ask: m.ap, timestamp: m.t };
+        hasPending = true;
+      }
+    };
+    ws.onerror = () => {
+      if (!closed) opts.onState('error', `无法连接 ${base}/${cluster}`);
+    };
+    ws.onclose = () => {
+      if (!closed) opts.onState('closed', `${cluster} 连接已断开`);
+    };
+    return ws;
+  };
+
+  opts.onState('connecting');
+  const sockets = [
+    connect('options', contracts.map(c => `Q.${c}`)),
+    connect('stocks', [`Q.${opts.underlying}`]),
+  ];
+
+  const flush = setInterval(() => {
+    if (!hasPending) return;
+    const update = pending;
+    pending = { quotes: {} };
+    hasPending = false;
+    opts.onUpdate(update);
+  }, opts.throttleMs ?? DEFAULT_THROTTLE_MS);
+
+  return {
+    close: () => {
+      closed = true;
+      clearInterval(flush);
+      sockets.forEach(ws => ws.close());
+    },
+  };
+};
+
+export interface StreamRowContext {
+  underlying: string;
+  price: number; // Underlying price after this update
+  fill: FillAssumption;
+  costBasis?: number;
+  multiplier?: number;
+  rate?: number;
+  delayed?: boolean; // Streaming from the delayed cluster
+}
+
+// Re-derive rows from streamed quotes: fill premium and returns for re-quoted contracts, then
+// Greeks / probabilities against the new underlying price. Vendor Greeks are kept as-is (the
+// snapshot's IV); model Greeks are re-solved from the new mid. Returns the rows whose premium moved.
+export const applyStreamUpdate = (
+  rows: OptionRow[],
+  update: StreamUpdate,
+  ctx: StreamRowContext
+): { rows: OptionRow[]; flashes: Record<string, FlashDirection> } => {
+  const flashes: Record<string, FlashDirection> = {};
+  const next = rows.map(row => {
+    const q = update.quotes[occSymbol(ctx.underlying, row.expirationDate, row.type || 'put', row.strike)];
+    if (!q && update.underlying === undefined) return row;
+
+    let updated = row;
+    if (q) {
+      const provenance = {
+        source: 'polygon',
+        basis: 'quote' as const,
+        quotedAt: (q.timestamp ? new Date(q.timestamp) : now()).toISOString(),
+        delayed: ctx.delayed,
+      };
+      updated = repriceRow({ ...row, bid: q.bid, ask: q.ask, mid: (q.bid + q.ask) / 2, provenance }, ctx.fill, ctx.costBasis, ctx.multiplier);
+      if (updated.premium !== row.premium) flashes[row.id] = updated.premium > row.premium ? 'up' : 'down';
+    }
+    const vendor = row.greeksSource === 'vendor'
+      ? { iv: row.iv, delta: row.delta, gamma: row.gamma, theta: row.theta, vega: row.vega }
+      : {};
+    return attachGreeks(updated, ctx.price, vendor, ctx.rate);
+  });
+  return { rows: next, flashes };
+};
@@ -0,0 +1,86 @@
+import { ContractType, MarketDataProvider, ProviderChainConfig, ProviderChainResult, SigmaInputs, TickerInfo } from "../types.ts";
+import { DataServiceError, toDataServiceError } from "./errors.ts";
+
+export const DEFAULT_PROVIDER_CHAIN_CONFIG: ProviderChainConfig = {
+  priority: ['polygon', 'gemini'],
+  fallbackOnError: true,
+  fallbackOnEmpty: false,
+};
+
+export interface ProviderChainHooks {
+  onProgress: (msg: string) => void;
+  // Called before moving on to the next provider, so the UI can surface a warning
+  onFallback?: (failed: MarketDataProvider, reason: string, next: MarketDataProvider) => void;
+}
+
+// Empty results follow `fallbackOnEmpty`; every other failure (auth, quota, network, parse)
+// follows `fallbackOnError`, since the next provider has its own key and quota.
+export const shouldFallback = (error: DataServiceError, config: ProviderChainConfig): boolean =>
+  error.code === 'empty_chain' ? config.fallbackOnEmpty : config.fallbackOnError;
+
+// Configured providers sorted by priority. Providers missing from the priority list go last.
+export const orderProviders = (
+  providers: MarketDataProvider[],
+  config: ProviderChainConfig
+): MarketDataProvider[] => {
+  const rank = (p: MarketDataProvider) => {
+    const idx = config.priority.indexOf(p.id);
+    return idx === -1 ? Number.MAX_SAFE_INTEGER : idx;
+  };
+  return providers
+    .filter(p => p.isConfigured())
+    .sort((a, b) => rank(a) - rank(b));
+};
+
+// Walk the provider chain until one returns a usable chain, applying the fallback rules.
+export const fetchFromProviderChain = async (
+  providers: MarketDataProvider[],
+  request: { ticker: TickerInfo; expiration: string; contractType: ContractType; sigmaInputs?: SigmaInputs },
+  config: ProviderChainConfig,
+  hooks: ProviderChainHooks
+): Promise<ProviderChainResult> => {
+  const chain = orderProviders(providers, config);
+  if (chain.length === 0) {
+    throw new DataServiceError('not_configured', 'app', "未配置数据源: 请在设置中输入 API Key (Polygon 或 Gemini)。");
+  }
+
+  for (let i = 0; i < chain.length; i++) {
+    const provider = chain[i];
+    const next = chain[i + 1];
+
+    try {
+      const quote = await provider.getUnderlyingPrice(request.ticker, hooks.onProgress);
+      const data = await provider.getChain({ ...request, underlyingPrice: quote.price, onProgress: hooks.onProgress });
+
+      const sources = [...(quote.sources || []), ...(data.sources || [])];
+      const warnings = [...(quote.warnings || []), ...(data.warnings || [])];
+      const result: ProviderChainResult = {
+        ...data,
+        currentPrice: data.currentPrice || quote.price,
+        sources: Array.from(new Map(sources.map(s => [s.uri, s])).values()),
+        warnings: warnings.length > 0 ? warnings : undefined,
+        providerId: provider.id,
+        providerLabel: provider.label,
+      };
+
+      const isEmpty = !result.options || result.options.length === 0;
+      if (isEmpty && config.fallbackOnEmpty && next) {
+        hooks.onFallback?.(provider, "期权链为空", next);
+        continue;
+      }
+      return result;
+    } catch (e) {
+      const err = toDataServiceError(e, provider.id);
+      const msg = err.message || "Unknown Error";
+      if (!shouldFallback(err, config) || !next) {
+        const hint = !next && providers.length > chain.length ? " (其他数据源未配置 Key，无法切换)" : "";
+        throw new DataServiceError(err.code, err.provider, `${provider.label} 错误: ${msg}${hint}`, err.status);
+      }
+      console.error(`${provider.label} failed, falling back...`, e);
+      hooks.onFallback?.(provider, msg, next);
+    }
+  }
+
+  // Unreachable: the last provider in the chain always returns or throws
+  throw new DataServiceError('empty_chain', 'app', "所有数据源均未返回期权链数据。");
+};
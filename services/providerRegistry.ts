@@ -0,0 +1,39 @@
+import { MarketDataProvider, ProviderChainConfig, RecordedSession } from "../types.ts";
+import { createGeminiProvider } from "./geminiService.ts";
+import { createPolygonProvider } from "./polygonService.ts";
+import { createReplayProvider } from "./replayProvider.ts";
+
+// Market data providers by id, resolved in the order of the provider chain settings.
+// Adding a source is one entry here plus its service.
+
+export interface ProviderKeys {
+  polygon: string;
+  gemini: string;
+}
+
+const PROVIDER_FACTORIES: Record<string, (keys: ProviderKeys) => MarketDataProvider> = {
+  polygon: keys => createPolygonProvider(keys.polygon),
+  gemini: keys => createGeminiProvider(keys.gemini),
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_FACTORIES);
+
+// Priority list as stored in settings, made to name every registered provider exactly once:
+// unknown and repeated ids are dropped, missing ones follow in registry order.
+// A saved config from an older version can otherwise leave a provider out of the fallback chain.
+export const normalizeChainConfig = (config: ProviderChainConfig): ProviderChainConfig => {
+  const known = Array.from(new Set(config.priority.filter(id => PROVIDER_IDS.includes(id))));
+  const missing = PROVIDER_IDS.filter(id => !known.includes(id));
+  return { ...config, priority: [...known, ...missing] };
+};
+
+// Every registered provider, in the configured priority order. During replay the recorded
+// session is the only source.
+export const resolveProviders = (
+  config: ProviderChainConfig,
+  keys: ProviderKeys,
+  replaySession?: RecordedSession | null
+): MarketDataProvider[] => {
+  if (replaySession) return [createReplayProvider(replaySession)];
+  return normalizeChainConfig(config).priority.map(id => PROVIDER_FACTORIES[id](keys));
+};
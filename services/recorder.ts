@@ -0,0 +1,169 @@
+import { GenerateContentParameters, GoogleGenAI } from "@google/genai";
+import { RecordedEntry, RecordedSession } from "../types.ts";
+import { setClockOverride } from "../utils/clock.ts";
+
+// Record / replay of raw provider responses.
+// Every Polygon request and Gemini call goes through `dataFetch` / `generateContent`:
+// - record mode stores the raw payloads into a session (a JSON fixture)
+// - replay mode answers from the active session instead of the network,
+//   so the providers' parsing and fallback logic runs unchanged.
+
+const STORAGE_KEY = "recorded_sessions";
+
+// Placeholder key for providers driven by a replay session (requests never leave the browser)
+export const REPLAY_API_KEY = "replay-session";
+
+let recording: RecordedSession | null = null;
+let replaying: RecordedSession | null = null;
+
+const stripApiKey = (url: string): string =>
+  url.replace(/([?&])apiKey=[^&]*(&|$)/, (_, lead, tail) => (tail ? lead : '')).replace(/[?&]$/, '');
+
+// Prompts are template literals; indentation differences shouldn't break a replay
+const normalizePrompt = (contents: unknown): string =>
+  (typeof contents === 'string' ? contents : JSON.stringify(contents)).replace(/\s+/g, ' ').trim();
+
+// Date-insensitive form of a URL, used when the simulated "as of" date shifts
+// lookback / look-ahead windows. The expiration being priced must still match.
+const looseKey = (key: string): string => {
+  const [path, query = ''] = key.split('?');
+  const params = query
+    .split('&')
+    .filter(p => p && !(/=\d{4}-\d{2}-\d{2}$/.test(p) && !p.startsWith('expiration_date=')));
+  return `${path.replace(/\/\d{4}-\d{2}-\d{2}/g, '/*')}?${params.join('&')}`;
+};
+
+const record = (entry: RecordedEntry) => {
+  if (!recording) return;
+  // Keep the latest response per request (retries and re-fetches overwrite)
+  recording.entries = recording.entries.filter(e => !(e.kind === entry.kind && e.key === entry.key));
+  recording.entries.push(entry);
+};
+
+const findEntry = (session: RecordedSession, kind: RecordedEntry['kind'], key: string): RecordedEntry | undefined => {
+  const candidates = session.entries.filter(e => e.kind === kind);
+  const exact = candidates.find(e => e.key === key);
+  if (exact || kind !== 'http') return exact;
+  const loose = looseKey(key);
+  return candidates.find(e => looseKey(e.key) === loose);
+};
+
+// --- Transport wrappers used by the providers ---
+
+export const dataFetch = async (url: string): Promise<Response> => {
+  const key = stripApiKey(url);
+
+  if (replaying) {
+    const entry = findEntry(replaying, 'http', key);
+    if (!entry) throw new Error(`回放会话中没有此请求的记录: ${key}`);
+    return new Response(JSON.stringify(entry.body), {
+      status: entry.status,
+      statusText: entry.status === 200 ? 'OK' : `Recorded ${entry.status}`,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const res = await fetch(url);
+  if (recording) {
+    let body: any = null;
+    try { body = await res.clone().json(); } catch (e) { /* non-JSON error page */ }
+    record({ kind: 'http', key, status: res.status, body });
+  }
+  return res;
+};
+
+export const generateContent = async (
+  ai: GoogleGenAI,
+  params: GenerateContentParameters
+): Promise<{ text: string; candidates?: any[] }> => {
+  const key = normalizePrompt(params.contents);
+
+  if (replaying) {
+    const entry = findEntry(replaying, 'gemini', key);
+    if (!entry) throw new Error("回放会话中没有此 Gemini 请求的记录");
+    return entry.body;
+  }
+
+  const response = await ai.models.generateContent(params);
+  // Only the grounding metadata is read downstream; the full candidate content would bloat fixtures
+  const body = {
+    text: response.text ?? '',
+    candidates: response.candidates?.map(c => ({ groundingMetadata: c.groundingMetadata })),
+  };
+  record({ kind: 'gemini', key, status: 200, body });
+  return body;
+};
+
+// --- Record mode ---
+
+export const startRecording = (label: string, ticker: string) => {
+  const recordedAt = new Date().toISOString();
+  recording = { id: `${ticker}-${recordedAt}`, label, recordedAt, ticker, entries: [] };
+};
+
+export const isRecording = (): boolean => recording !== null;
+
+// Ends the current recording. Returns null when nothing was captured.
+export const stopRecording = (providerId?: string): RecordedSession | null => {
+  const session = recording;
+  recording = null;
+  if (!session || session.entries.length === 0) return null;
+  return { ...session, providerId };
+};
+
+// --- Replay mode ---
+
+// Serve responses from `session` and pin the clock to `asOf` (defaults to the recording time)
+export const activateReplay = (session: RecordedSession, asOf?: string) => {
+  replaying = session;
+  setClockOverride(new Date(asOf || session.recordedAt));
+};
+
+export const deactivateReplay = () => {
+  replaying = null;
+  setClockOverride(null);
+};
+
+export const isReplaying = (): boolean => replaying !== null;
+
+// --- Fixture storage (localStorage + JSON files) ---
+
+export const loadRecordedSessions = (): RecordedSession[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (e) {
+    console.warn("Invalid recorded sessions, ignoring", e);
+    return [];
+  }
+};
+
+export const saveRecordedSession = (session: RecordedSession): RecordedSession[] => {
+  const sessions = [...loadRecordedSessions().filter(s => s.id !== session.id), session];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (e) {
+    throw new Error("录制数据超出浏览器本地存储容量，请先导出 JSON 或删除旧的录制。");
+  }
+  return sessions;
+};
+
+export const deleteRecordedSession = (id: string): RecordedSession[] => {
+  const sessions = loadRecordedSessions().filter(s => s.id !== id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  return sessions;
+};
+
+export const serializeSession = (session: RecordedSession): string => JSON.stringify(session, null, 2);
+
+export const parseSessionFixture = (text: string): RecordedSession => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("录制文件不是有效的 JSON。");
+  }
+  if (!data || typeof data.id !== 'string' || typeof data.recordedAt !== 'string' || !Array.isArray(data.entries)) {
+    throw new Error("录制文件格式不正确 (缺少 id / recordedAt / entries)。");
+  }
+  return data as RecordedSession;
+};
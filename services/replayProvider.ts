@@ -0,0 +1,21 @@
+import { MarketDataProvider, RecordedSession } from "../types.ts";
+import { createGeminiProvider } from "./geminiService.ts";
+import { createPolygonProvider } from "./polygonService.ts";
+import { REPLAY_API_KEY } from "./recorder.ts";
+
+// Provider backed by a recorded session. It wraps the provider that answered during
+// recording, so requests flow through the same parsing code; `activateReplay` must be
+// on for its transport calls to be served from the fixture instead of the network.
+export const createReplayProvider = (session: RecordedSession): MarketDataProvider => {
+  const inner = session.providerId === 'gemini'
+    ? createGeminiProvider(REPLAY_API_KEY)
+    : createPolygonProvider(REPLAY_API_KEY);
+
+  return {
+    ...inner,
+    id: 'replay',
+    label: `回放: ${session.label}`,
+    capabilities: { ...inner.capabilities, realtime: false },
+    isConfigured: () => true,
+  };
+};
@@ -0,0 +1,87 @@
+import { QueueState, RateLimitPlan } from "../types.ts";
+
+const WINDOW_MS = 60 * 1000;
+
+// Retry-After is either delta-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// FIFO queue that starts at most `callsPerMinute` tasks per sliding minute and
+// `maxConcurrent` at a time. `pause` holds every queued task (e.g. after a 429).
+export const createRequestQueue = (initialPlan: RateLimitPlan) => {
+  let plan = initialPlan;
+  let inFlight = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const started: number[] = []; // Start times within the current window
+  const waiting: Array<() => void> = [];
+  const listeners = new Set<(state: QueueState) => void>();
+
+  const waitFor = (now: number): number => {
+    while (started.length > 0 && started[0] <= now - WINDOW_MS) started.shift();
+    let wait = Math.max(0, pausedUntil - now);
+    if (started.length >= plan.callsPerMinute) wait = Math.max(wait, started[0] + WINDOW_MS - now);
+    return wait;
+  };
+
+  const getState = (): QueueState => ({
+    queued: waiting.length,
+    inFlight,
+    waitMs: waiting.length > 0 ? waitFor(Date.now()) : 0,
+  });
+
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (waiting.length > 0 && inFlight < plan.maxConcurrent) {
+      const now = Date.now();
+      const wait = waitFor(now);
+      if (wait > 0) {
+        timer = setTimeout(pump, wait);
+        break;
+      }
+      started.push(now);
+      inFlight++;
+      waiting.shift()!();
+    }
+    const state = getState();
+    listeners.forEach(l => l(state));
+  };
+
+  const run = async <T>(task: () => Promise<T>): Promise<T> => {
+    await new Promise<void>(resolve => {
+      waiting.push(resolve);
+      pump();
+    });
+    try {
+      return await task();
+    } finally {
+      inFlight--;
+      pump();
+    }
+  };
+
+  return {
+    run,
+    getState,
+    pause: (ms: number) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+      pump();
+    },
+    setPlan: (next: RateLimitPlan) => {
+      plan = next;
+      pump();
+    },
+    subscribe: (listener: (state: QueueState) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
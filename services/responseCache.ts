@@ -0,0 +1,172 @@
+import { isRecording, isReplaying } from "./recorder.ts";
+import { toEastern } from "../utils/marketCalendar.ts";
+import { now } from "../utils/clock.ts";
+
+// Persistent response cache (IndexedDB) shared by polygonService and geminiService.
+// - fresh entries (younger than the endpoint TTL) are returned without a request
+// - stale entries (up to MAX_STALE_MS) are returned immediately and refreshed in the background
+// - older entries, or anything stored before a force refresh, are refetched
+
+export type CacheEndpoint = 'price' | 'chain' | 'expirations' | 'aggregates' | 'volatility';
+
+export interface CacheKey {
+  provider: string;
+  endpoint: CacheEndpoint;
+  ticker: string;
+  expiration?: string;
+  contractType?: string;
+  variant?: string; // Anything else that changes the response (e.g. a specific strike list)
+}
+
+export const CACHE_TTL_MS: Record<CacheEndpoint, number> = {
+  price: 60 * 1000,
+  chain: 5 * 60 * 1000,
+  volatility: 30 * 60 * 1000,
+  aggregates: 6 * 3600 * 1000,   // Daily bars only change once a day
+  expirations: 12 * 3600 * 1000, // New weeklies are listed days ahead
+};
+
+// Beyond this an entry is too old to show even while revalidating
+const MAX_STALE_MS = 24 * 3600 * 1000;
+
+// Same-day (0DTE) chains decay by the minute: short TTL, and never served stale
+const SAME_DAY_CHAIN_TTL_MS = 30 * 1000;
+
+const isSameDayChain = (key: CacheKey): boolean =>
+  key.endpoint === 'chain' && key.expiration === toEastern(now()).date;
+
+const DB_NAME = "yield-hunter-cache";
+const STORE = "responses";
+
+interface CacheEntry {
+  key: string;
+  value: any;
+  storedAt: number;
+}
+
+// What the last fetch was served from, for the "cached / stale" indicator
+export interface CacheReport {
+  fresh: number;
+  stale: number;
+  oldestStoredAt?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const invalidatedAt: Partial<Record<CacheEndpoint, number>> = {};
+let report: CacheReport = { fresh: 0, stale: 0 };
+const revalidating = new Map<string, Promise<void>>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'key' });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(STORE).objectStore(STORE).get(key);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const writeEntry = async (entry: CacheEntry): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(entry);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const cacheKeyString = (k: CacheKey): string =>
+  [k.provider, k.endpoint, k.ticker, k.expiration || '-', k.contractType || '-', k.variant || '-'].join('|');
+
+const noteHit = (kind: 'fresh' | 'stale', storedAt: number) => {
+  report[kind]++;
+  report.oldestStoredAt = Math.min(report.oldestStoredAt ?? storedAt, storedAt);
+};
+
+const store = (key: string, value: any) =>
+  writeEntry({ key, value, storedAt: Date.now() }).catch(e => console.warn("Cache write failed", e));
+
+// Serve `loader`'s result through the cache. `shouldStore` keeps empty / failed results out of it.
+export const withCache = async <T>(
+  key: CacheKey,
+  loader: () => Promise<T>,
+  shouldStore: (value: T) => boolean = () => true
+): Promise<T> => {
+  // Fixtures must capture / serve the raw responses, and IndexedDB may be unavailable (private mode)
+  if (isRecording() || isReplaying() || typeof indexedDB === 'undefined') return loader();
+
+  const id = cacheKeyString(key);
+  let entry: CacheEntry | undefined;
+  try {
+    entry = await readEntry(id);
+  } catch (e) {
+    console.warn("Cache read failed", e);
+  }
+
+  if (entry && entry.storedAt > (invalidatedAt[key.endpoint] ?? 0)) {
+    const age = Date.now() - entry.storedAt;
+    const sameDay = isSameDayChain(key);
+    if (age <= (sameDay ? SAME_DAY_CHAIN_TTL_MS : CACHE_TTL_MS[key.endpoint])) {
+      noteHit('fresh', entry.storedAt);
+      return entry.value;
+    }
+    if (!sameDay && age <= MAX_STALE_MS) {
+      noteHit('stale', entry.storedAt);
+      if (!revalidating.has(id)) {
+        const refresh = loader()
+          .then(value => { if (shouldStore(value)) return store(id, value); })
+          .catch(e => console.warn(`Background refresh failed for ${id}`, e))
+          .finally(() => revalidating.delete(id));
+        revalidating.set(id, refresh);
+      }
+      return entry.value;
+    }
+  }
+
+  const value = await loader();
+  if (shouldStore(value)) await store(id, value);
+  return value;
+};
+
+// Last stored value for `key` without loading, or undefined past MAX_STALE_MS (reference values for sanity checks)
+export const peekCache = async <T>(key: CacheKey): Promise<T | undefined> => {
+  if (isReplaying() || typeof indexedDB === 'undefined') return undefined;
+  try {
+    const entry = await readEntry(cacheKeyString(key));
+    return entry && Date.now() - entry.storedAt <= MAX_STALE_MS ? entry.value : undefined;
+  } catch (e) {
+    console.warn("Cache read failed", e);
+    return undefined;
+  }
+};
+
+// Every entry of `endpoints` stored so far is ignored and refetched. Manual "force refresh"
+// drops everything; scheduled refreshes drop only the price and chain they are polling for.
+export const invalidateCache = (endpoints: CacheEndpoint[] = Object.keys(CACHE_TTL_MS) as CacheEndpoint[]) => {
+  const at = Date.now();
+  endpoints.forEach(endpoint => { invalidatedAt[endpoint] = at; });
+};
+
+// Cache usage since the last call (resets the counters)
+export const takeCacheReport = (): CacheReport => {
+  const r = report;
+  report = { fresh: 0, stale: 0 };
+  return r;
+};
+
+// Settles once the background refreshes started by stale hits have written their results
+export const whenRevalidated = async (): Promise<void> => {
+  await Promise.allSettled([...revalidating.values()]);
+};
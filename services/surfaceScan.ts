@@ -0,0 +1,113 @@
+import { ChainFilter, ContractType, MarketDataProvider, ProviderChainConfig, RowContext, SigmaInputs, SurfaceCell, TickerInfo, YieldSurface } from "../types.ts";
+import { applyChainFilter, buildOptionRows, getDaysToExpiration, sampleExpirations } from "../utils/calculations.ts";
+import { generateExpirationCalendar } from "../utils/marketCalendar.ts";
+import { now } from "../utils/clock.ts";
+import { orderProviders, shouldFallback } from "./providerChain.ts";
+import { DataServiceError, toDataServiceError } from "./errors.ts";
+
+// Each expiration costs at least one request (several for AI search), so cap the scan.
+// Longer lists are sampled across the whole DTE range, not cut after the nearest ones.
+export const MAX_SURFACE_EXPIRATIONS = 12;
+
+export interface SurfaceScanRequest {
+  ticker: TickerInfo;
+  contractType: ContractType;
+  minDte: number;
+  maxDte: number;
+  sigmaInputs?: SigmaInputs;
+}
+
+// Scan every expiration in a DTE range and build a strike × expiration matrix.
+// Uses the highest-priority provider that can quote the underlying; a failing expiration is skipped, not fatal.
+export const scanYieldSurface = async (
+  providers: MarketDataProvider[],
+  config: ProviderChainConfig,
+  request: SurfaceScanRequest,
+  rowContext: Omit<RowContext, 'expiration' | 'contractType' | 'underlyingPrice'>,
+  filter: ChainFilter,
+  onProgress: (msg: string) => void
+): Promise<YieldSurface> => {
+  const chain = orderProviders(providers, config);
+  if (chain.length === 0) {
+    throw new DataServiceError('not_configured', 'app', "未配置数据源: 请在设置中输入 API Key (Polygon 或 Gemini)。");
+  }
+
+  let lastError: DataServiceError | null = null;
+  for (const provider of chain) {
+    try {
+      const quote = await provider.getUnderlyingPrice(request.ticker, onProgress);
+      const underlyingPrice = quote.price;
+
+      onProgress(`正在获取 ${request.ticker.symbol} 到期日列表...`);
+      const listed = provider.capabilities.expirations ? await provider.getExpirations(request.ticker) : [];
+      const candidates = listed.length > 0 ? listed : generateExpirationCalendar(request.ticker, now(), request.maxDte);
+      const expirations = sampleExpirations(candidates.filter(d => {
+        const dte = getDaysToExpiration(d);
+        return dte >= request.minDte && dte <= request.maxDte;
+      }), MAX_SURFACE_EXPIRATIONS);
+
+      if (expirations.length === 0) {
+        throw new DataServiceError('empty_chain', provider.id, `${request.minDte}-${request.maxDte} 天内没有可用的到期日。`);
+      }
+
+      const cells: SurfaceCell[] = [];
+      const scanned: string[] = [];
+      for (let i = 0; i < expirations.length; i++) {
+        const expiration = expirations[i];
+        const step = `[${i + 1}/${expirations.length}] ${expiration}`;
+        onProgress(`期限扫描 ${step}...`);
+        try {
+          const data = await provider.getChain({
+            ticker: request.ticker,
+            expiration,
+            contractType: request.contractType,
+            underlyingPrice,
+            sigmaInputs: request.sigmaInputs,
+            onProgress: (msg) => onProgress(`${step} ${msg}`)
+          });
+          const rows = buildOptionRows(data.options || [], {
+            ...rowContext,
+            expiration,
+            contractType: request.contractType,
+            underlyingPrice
+          });
+          const visible = applyChainFilter(rows, filter, underlyingPrice);
+          if (visible.length === 0) continue;
+
+          scanned.push(expiration);
+          visible.forEach(row => cells.push({
+            strike: row.strike,
+            expiration,
+            daysToExpiration: row.daysToExpiration,
+            annualizedReturn: row.annualizedReturn,
+            premium: row.premium,
+            delta: row.delta,
+            pop: row.pop
+          }));
+        } catch (e) {
+          console.warn(`Surface scan skipped ${expiration}`, e);
+        }
+      }
+
+      if (cells.length === 0) {
+        throw new DataServiceError('empty_chain', provider.id, "所有到期日均未返回期权链数据。");
+      }
+
+      return {
+        ticker: request.ticker.symbol,
+        contractType: request.contractType,
+        underlyingPrice,
+        expirations: scanned,
+        strikes: Array.from(new Set(cells.map(c => c.strike))).sort((a, b) => b - a),
+        cells,
+        providerLabel: provider.label
+      };
+    } catch (e) {
+      lastError = toDataServiceError(e, provider.id);
+      if (!shouldFallback(lastError, config)) break;
+      console.warn(`${provider.label} surface scan failed, trying next provider`, e);
+    }
+  }
+
+  throw new DataServiceError(lastError?.code || 'unknown', lastError?.provider || 'app', `期限扫描失败: ${lastError?.message || "Unknown Error"}`, lastError?.status);
+};
@@ -0,0 +1,112 @@
+import { ContractType, MarketDataProvider, OptionRow, ProviderChainConfig, RowContext, SigmaInputs, SkewPoint, TermPoint, TickerInfo, VolatilityStructure } from "../types.ts";
+import { atmStrikeDistance, buildOptionRows, getAtmIv, getDaysToExpiration, getOtmPercent, sampleExpirations } from "../utils/calculations.ts";
+import { generateExpirationCalendar } from "../utils/marketCalendar.ts";
+import { now } from "../utils/clock.ts";
+import { orderProviders, shouldFallback } from "./providerChain.ts";
+import { DataServiceError, toDataServiceError } from "./errors.ts";
+
+// Term structure costs one chain request per expiration, so sample the listed ones across
+// TERM_MAX_DTE instead of taking the front weeks of a daily-listed ticker
+export const MAX_TERM_EXPIRATIONS = 8;
+const TERM_MAX_DTE = 120;
+
+// Skew points further from the money than this are dropped (illiquid wings)
+const SKEW_MAX_MONEYNESS_PCT = 20;
+
+export interface VolStructureRequest {
+  ticker: TickerInfo;
+  expiration: string;
+  contractType: ContractType; // Side already loaded
+  underlyingPrice: number;
+  loaded: OptionRow[];        // Rows on screen for `expiration`; reused instead of refetched
+  sigmaInputs?: SigmaInputs;
+}
+
+const toSkewPoints = (rows: OptionRow[], underlyingPrice: number): SkewPoint[] =>
+  rows
+    .filter(r => r.iv !== undefined && r.iv > 0 && Math.abs(getOtmPercent(r.strike, underlyingPrice, r.type)) <= SKEW_MAX_MONEYNESS_PCT)
+    .map(r => ({ strike: r.strike, type: r.type || 'put', iv: r.iv!, delta: r.delta }));
+
+// Skew for the selected expiration (the loaded side plus the opposite one) and ATM IV per
+// expiration for the loaded side. Like the surface scan, a failing expiration is skipped; a
+// provider that adds nothing to the loaded rows falls through to the next one.
+export const loadVolatilityStructure = async (
+  providers: MarketDataProvider[],
+  config: ProviderChainConfig,
+  request: VolStructureRequest,
+  rowContext: Omit<RowContext, 'expiration' | 'contractType' | 'underlyingPrice'>,
+  onProgress: (msg: string) => void
+): Promise<VolatilityStructure> => {
+  const chain = orderProviders(providers, config);
+  if (chain.length === 0) {
+    throw new DataServiceError('not_configured', 'app', "未配置数据源: 请在设置中输入 API Key (Polygon 或 Gemini)。");
+  }
+
+  const { ticker, expiration, contractType, underlyingPrice } = request;
+  const fetchRows = async (provider: MarketDataProvider, exp: string, type: ContractType, step: string) => {
+    const data = await provider.getChain({
+      ticker,
+      expiration: exp,
+      contractType: type,
+      underlyingPrice,
+      sigmaInputs: request.sigmaInputs,
+      onProgress: (msg) => onProgress(`${step} ${msg}`)
+    });
+    return buildOptionRows(data.options || [], { ...rowContext, expiration: exp, contractType: type, underlyingPrice });
+  };
+
+  let lastError: DataServiceError | null = null;
+  for (const provider of chain) {
+    try {
+      const opposite: ContractType = contractType === 'put' ? 'call' : 'put';
+      let oppositeRows: OptionRow[] = [];
+      try {
+        oppositeRows = await fetchRows(provider, expiration, opposite, `偏斜 ${opposite.toUpperCase()}`);
+      } catch (e) {
+        console.warn(`Skew: ${opposite} side unavailable`, e);
+      }
+
+      onProgress(`正在获取 ${ticker.symbol} 到期日列表...`);
+      const listed = provider.capabilities.expirations ? await provider.getExpirations(ticker) : [];
+      const expirations = sampleExpirations(
+        (listed.length > 0 ? listed : generateExpirationCalendar(ticker, now(), TERM_MAX_DTE)).filter(d => getDaysToExpiration(d) <= TERM_MAX_DTE),
+        MAX_TERM_EXPIRATIONS
+      );
+      // A term point needs a strike near spot; the nearest strike of an OTM-only chain would put wing IV on the curve
+      const atmDistance = atmStrikeDistance(underlyingPrice, ticker.strikeIncrement);
+
+      const term: TermPoint[] = [];
+      let fetchedTerm = 0;
+      for (let i = 0; i < expirations.length; i++) {
+        const exp = expirations[i];
+        try {
+          const rows = exp === expiration ? request.loaded : await fetchRows(provider, exp, contractType, `期限 [${i + 1}/${expirations.length}] ${exp}`);
+          if (exp !== expiration) fetchedTerm++;
+          const atmIv = getAtmIv(rows, underlyingPrice, atmDistance);
+          if (atmIv) term.push({ expiration: exp, daysToExpiration: getDaysToExpiration(exp), atmIv });
+        } catch (e) {
+          console.warn(`Term structure skipped ${exp}`, e);
+        }
+      }
+
+      if (oppositeRows.length === 0 && fetchedTerm === 0) {
+        throw new DataServiceError('empty_chain', provider.id, "未能获取对侧期权或其他到期日的隐含波动率。");
+      }
+
+      return {
+        ticker: ticker.symbol,
+        expiration,
+        underlyingPrice,
+        skew: toSkewPoints([...request.loaded, ...oppositeRows], underlyingPrice).sort((a, b) => a.strike - b.strike),
+        term,
+        providerLabel: provider.label
+      };
+    } catch (e) {
+      lastError = toDataServiceError(e, provider.id);
+      if (!shouldFallback(lastError, config)) break;
+      console.warn(`${provider.label} volatility structure failed, trying next provider`, e);
+    }
+  }
+
+  throw new DataServiceError(lastError?.code || 'unknown', lastError?.provider || 'app', `波动率结构加载失败: ${lastError?.message || "Unknown Error"}`, lastError?.status);
+};
@@ -1,18 +1,76 @@
-export interface OptionRow {
+export interface PremiumQuote {
+  bid?: number;
+  ask?: number;
+  last?: number;
+  mid?: number;
+}
+
+// What a premium was derived from. Prior-day and AI-extracted prices are indicative only
+// and must not be ranked against live quotes.
+export type PremiumBasis =
+  | 'quote'       // Live (or delayed) bid / ask
+  | 'last_trade'  // Last print; no two-sided market
+  | 'day_close'   // Session close / latest daily bar
+  | 'prev_close'  // Previous-day aggregate (Polygon /prev)
+  | 'ai_search'   // Extracted from a search snippet by Gemini
+  | 'manual';     // Typed in by the user
+
+export interface Provenance {
+  source: string;    // Provider id ('polygon', 'gemini'), or 'manual'
+  basis: PremiumBasis;
+  quotedAt?: string; // ISO time of the quote / trade / bar, when the source reports one
+  delayed?: boolean; // From a delayed feed
+}
+
+// How a sell (or buy) order is assumed to fill against the quote
+export interface FillAssumption {
+  mode: 'bid' | 'mid' | 'mid_minus';
+  spreadPct: number; // For 'mid_minus': concession from mid as % of the bid-ask spread
+}
+
+export interface OptionRow extends PremiumQuote {
   id: string;
   strike: number;
-  premium: number; // The bid price usually used for selling
+  premium: number; // Fill price under the active FillAssumption (bid when no quote)
   daysToExpiration: number;
+  hoursToClose?: number;  // Same-day expirations: regular-session hours left
+  returnPerHour?: number; // Same-day: ROI % per remaining session hour
   expirationDate: string;
   annualizedReturn: number;
   breakeven: number;
   capitalRequired: number;
   roi: number; // Raw return on investment %
   // Optional fields for extended functionality
-  winRate?: number;
+  winRate?: number;     // Expires OTM at the strike (1 - |delta|)
+  pop?: number;         // Lognormal probability of profit at breakeven (%)
+  touchProb?: number;   // Probability of touching the strike before expiry (%)
   delta?: number;
   iv?: number;
+  gamma?: number;
+  theta?: number; // Per calendar day
+  vega?: number;  // Per 1 vol point
+  greeksSource?: 'vendor' | 'local'; // Supplied by the data source, or back-solved by utils/blackScholes
   type?: 'put' | 'call';
+  provenance?: Provenance;
+}
+
+// Display filter over the full chain. The table/chart show only matching rows,
+// while spread long legs are still searched across the whole chain.
+export interface ChainFilter {
+  maxOtmPct: number;  // Hide strikes further OTM than this (% of price)
+  showItm: boolean;   // Include ITM strikes within maxOtmPct of price
+  minPremium: number; // Hide illiquid strikes below this premium
+}
+
+// Inputs shared by every row built from one chain (see buildOptionRows)
+export interface RowContext {
+  expiration: string;
+  contractType: ContractType;
+  underlyingPrice: number;
+  costBasis?: number;
+  multiplier?: number;
+  fill?: FillAssumption;
+  rate?: number;
 }
 
 export interface MarketStatus {
@@ -27,18 +85,64 @@ export enum FetchStatus {
   ERROR = 'ERROR',
 }
 
+export type ContractType = 'put' | 'call';
+
+export interface TickerInfo {
+  symbol: string;
+  name: string;
+  exchange: string;        // Used for search prompts, e.g. "NASDAQ:QQQ"
+  strikeIncrement: number; // Typical listed strike spacing near the money
+  multiplier: number;      // Shares per contract
+  expirationWeekdays?: number[];  // Listed weekly expirations (0 = Sun ... 5 = Fri); defaults to Fridays
+  monthEndExpirations?: boolean;  // Also lists the last trading day of each month
+}
+
+export interface ExpirationList {
+  dates: string[]; // YYYY-MM-DD, ascending
+  source: 'polygon' | 'calendar';
+  truncated?: boolean; // Polygon paging stopped early; later dates may be missing
+}
+
+export interface SourceLink {
+  uri: string;
+  title: string;
+}
+
+// --- Volatility assumption for dynamic strike targets ---
+
+export type SigmaSource = 'atm_iv' | 'vxn' | 'realized' | 'baseline';
+
+export interface SigmaEstimate {
+  sigma: number; // Annualized, decimal (0.18 = 18%)
+  source: SigmaSource;
+}
+
+export interface SigmaInputs {
+  preference?: SigmaSource[];
+  vxn?: () => Promise<number | undefined>; // Lazy: only awaited if VXN wins the preference order
+}
+
 export interface GeminiResponseData {
   currentPrice?: number;
-  options?: Array<{
+  targetSigma?: SigmaEstimate; // Sigma used to pick targeted strikes, when the source did so
+  options?: Array<PremiumQuote & {
     strike: number;
     premium: number;
     iv?: number;
     delta?: number;
+    gamma?: number;
+    theta?: number;
+    vega?: number;
+    provenance?: Provenance;
   }>;
-  sources?: Array<{
-    uri: string;
-    title: string;
-  }>;
+  sources?: SourceLink[];
+  warnings?: string[]; // Failed validation / plausibility checks, shown to the user
+}
+
+// Close-to-close volatility of the underlying over one trailing window
+export interface RealizedVolPoint {
+  days: number;  // Window length in trading days
+  sigma: number; // Annualized, decimal
 }
 
 export interface VolatilityMetrics {
@@ -48,4 +152,262 @@ export interface VolatilityMetrics {
   rank: number;
   status: string;
   statusColor: 'emerald' | 'yellow' | 'red';
+  warnings?: string[];
+  rangeEstimated?: boolean;  // Search found no 52-week range; high / low are placeholders
+  rankSource?: 'search' | 'history'; // Range from the search result, or from the local IV history
+  percentile?: number;       // History only: share of days with lower IV (0–100)
+  historyDays?: number;      // History only: observations the range covers
+}
+
+// --- IV History ---
+
+// One daily implied-vol reading, kept locally per series (see services/ivHistory)
+export interface IvObservation {
+  date: string;      // New York session date, YYYY-MM-DD
+  iv: number;        // Annualized, decimal
+  seeded?: boolean;  // Back-filled from daily aggregates rather than observed by the app
+}
+
+export interface IvHistoryStats {
+  rank: number;       // 0–100: current IV within the lookback's low–high range
+  percentile: number; // 0–100: share of days with lower IV than current
+  low: number;
+  high: number;
+  days: number;       // Observations in the lookback
+}
+
+// --- Volatility Structure ---
+
+export interface SkewPoint {
+  strike: number;
+  type: ContractType;
+  iv: number;     // Decimal
+  delta?: number;
+}
+
+export interface TermPoint {
+  expiration: string;
+  daysToExpiration: number;
+  atmIv: number;  // Decimal
+}
+
+// Per-strike IV for one expiration (both sides) and ATM IV across expirations
+export interface VolatilityStructure {
+  ticker: string;
+  expiration: string;
+  underlyingPrice: number;
+  skew: SkewPoint[];
+  term: TermPoint[];  // Nearest first
+  providerLabel: string;
+}
+
+// IVs at the listed strikes nearest 25Δ and ATM; skews in vol points (decimal × 100)
+export interface SkewSummary {
+  atmIv?: number;
+  put25Iv?: number;
+  call25Iv?: number;
+  putSkew?: number;      // 25Δ put − ATM
+  riskReversal?: number; // 25Δ put − 25Δ call
+}
+
+// --- Expected Move ---
+
+// The market's expected move to expiry, read off the ATM straddle (≈ the mean absolute move)
+export interface StraddleMove {
+  expiration: string;
+  strike: number;    // ATM strike the straddle is priced at
+  putPrice: number;
+  callPrice: number;
+  move: number;      // Straddle price
+  lower: number;     // Underlying − move
+  upper: number;     // Underlying + move
+  source: 'quotes' | 'parity'; // Both legs quoted, or the missing leg from put-call parity
+}
+
+// --- Market Data Providers ---
+
+export interface ProviderCapabilities {
+  realtime: boolean;    // Live quotes rather than delayed / prior-day prices
+  greeks: boolean;      // Vendor supplies IV & delta per contract
+  fullChain: boolean;   // Returns every strike, not a targeted subset
+  expirations: boolean; // Can list listed expiration dates
+}
+
+export interface PriceQuote {
+  price: number;
+  sources?: SourceLink[];
+  warnings?: string[];
+}
+
+export interface ChainRequest {
+  ticker: TickerInfo;
+  expiration: string;
+  contractType: ContractType;
+  underlyingPrice: number;
+  onProgress: (msg: string) => void;
+  sigmaInputs?: SigmaInputs;
+  strikes?: number[]; // Price exactly these strikes (cross-verification, straddle legs)
+}
+
+export interface MarketDataProvider {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  isConfigured: () => boolean;
+  getUnderlyingPrice: (ticker: TickerInfo, onProgress: (msg: string) => void) => Promise<PriceQuote>;
+  getExpirations: (ticker: TickerInfo) => Promise<string[]>;
+  getChain: (request: ChainRequest) => Promise<GeminiResponseData>;
+}
+
+export interface ProviderChainConfig {
+  priority: string[];         // Provider ids, highest priority first
+  fallbackOnError: boolean;   // Try the next provider when one throws
+  fallbackOnEmpty: boolean;   // Try the next provider when a chain comes back empty
+}
+
+export interface ProviderChainResult extends GeminiResponseData {
+  providerId: string;
+  providerLabel: string;
+}
+
+// --- Data Service Errors ---
+
+export type DataErrorCode =
+  | 'auth'           // Key missing / rejected (401)
+  | 'entitlement'    // Plan doesn't include the endpoint (403)
+  | 'rate_limit'     // 429 after retries
+  | 'network'        // Offline, DNS, CORS
+  | 'upstream'       // Provider 5xx
+  | 'empty_chain'    // Request succeeded but no contracts / quotes
+  | 'parse'          // Unexpected or invalid payload
+  | 'not_configured' // No provider has a key
+  | 'unknown';
+
+// --- Request Rate Limiting ---
+
+export type PolygonPlan = 'free' | 'paid';
+
+export interface RateLimitPlan {
+  callsPerMinute: number; // Infinity for unmetered plans
+  maxConcurrent: number;
+}
+
+// Snapshot of a request queue, for progress messages
+export interface QueueState {
+  queued: number;
+  inFlight: number;
+  waitMs: number; // Until the next queued request may start (rate window or Retry-After)
+}
+
+// --- Polygon Plan Entitlements ---
+
+// 'none': the plan has no option quotes at all (premiums come from previous-day aggregates)
+export type QuoteTimeframe = 'realtime' | 'delayed' | 'none';
+
+// What a Polygon key can access, probed once by validateApiKey
+export interface PolygonEntitlements {
+  snapshot: boolean;       // Options chain snapshot (full chain with bid/ask, IV, greeks)
+  quotes: QuoteTimeframe;
+  lastTrade: boolean;      // Underlying last trade (otherwise previous close)
+  aggregatesYears: number; // Daily-bar history reachable, in years (0 when none was)
+  websocket: boolean;
+  checkedAt: string;       // ISO
+}
+
+// --- Live Streaming ---
+
+export type StreamState = 'connecting' | 'live' | 'error' | 'closed';
+
+export interface StreamQuote {
+  bid: number;
+  ask: number;
+  timestamp?: number; // SIP time (ms)
+}
+
+// Latest quotes since the previous flush, keyed by OCC contract symbol
+export interface StreamUpdate {
+  quotes: Record<string, StreamQuote>;
+  underlying?: number; // Mid of the underlying's quote
+}
+
+// Direction of a streamed premium change, for the cell highlight
+export type FlashDirection = 'up' | 'down';
+
+// --- Cross-source Verification ---
+
+// Premium disagreement allowed before two sources are considered to conflict:
+// the larger of an absolute amount and a fraction of the reference premium.
+export interface VerifyTolerance {
+  absolute: number;
+  relative: number;
+}
+
+// agree: within tolerance · minor: within 2× tolerance · conflict: beyond · single: only one source quoted it
+export type VerifyConfidence = 'agree' | 'minor' | 'conflict' | 'single';
+
+export interface StrikeVerification {
+  strike: number;
+  primary?: number;   // Reference premium (mid, else last, else premium) from the primary source
+  secondary?: number;
+  diff?: number;      // secondary - primary
+  diffPct?: number;   // |diff| relative to the primary premium, 0–100
+  confidence: VerifyConfidence;
+}
+
+export interface CrossVerification {
+  primaryLabel: string;
+  secondaryLabel: string;
+  primaryPrice: number;
+  secondaryPrice?: number;
+  priceDiffPct?: number;
+  tolerance: VerifyTolerance;
+  rows: StrikeVerification[];
+}
+
+// --- Multi-expiration Yield Surface ---
+
+export interface SurfaceCell {
+  strike: number;
+  expiration: string;
+  daysToExpiration: number;
+  annualizedReturn: number;
+  premium: number;
+  delta?: number;
+  pop?: number;
+}
+
+export interface YieldSurface {
+  ticker: string;
+  contractType: ContractType;
+  underlyingPrice: number;
+  expirations: string[]; // Columns, nearest first
+  strikes: number[];     // Rows, highest first
+  cells: SurfaceCell[];
+  providerLabel: string;
+}
+
+// --- Offline Record / Replay ---
+
+// One raw provider response. `key` is the request URL with the API key stripped
+// (http) or the exact prompt text (gemini); `body` is the parsed JSON payload or
+// the model's { text, candidates }.
+export interface RecordedEntry {
+  kind: 'http' | 'gemini';
+  key: string;
+  status: number;
+  body: any;
+}
+
+export interface RecordedSession {
+  id: string;
+  label: string;
+  recordedAt: string; // ISO timestamp, the default simulated "as of"
+  ticker: string;
+  providerId?: string; // Which provider answered; replay drives the same one
+  entries: RecordedEntry[];
+}
+
+export interface ReplaySelection {
+  sessionId: string;
+  asOf: string; // ISO timestamp the clock is pinned to during replay
 }
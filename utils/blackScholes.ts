@@ -0,0 +1,161 @@
+// Black-Scholes-Merton pricing engine.
+// Used to back-solve implied volatility and Greeks when the data source doesn't supply them
+// (Polygon Free Tier aggregates, Gemini search results, manual entries).
+
+export const DEFAULT_RISK_FREE_RATE = 0.045;
+
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  theta: number; // Per calendar day
+  vega: number;  // Per 1 vol point (0.01)
+}
+
+export const normPdf = (x: number): number => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+// Abramowitz & Stegun 26.2.17, accurate to ~7.5e-8
+export const normCdf = (x: number): number => {
+  const k = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = k * (0.319381530 + k * (-0.356563782 + k * (1.781477937 + k * (-1.821255978 + k * 1.330274429))));
+  const tail = normPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+};
+
+const d1d2 = (S: number, K: number, T: number, r: number, sigma: number, q: number) => {
+  const d1 = (Math.log(S / K) + (r - q + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
+  return { d1, d2: d1 - sigma * Math.sqrt(T) };
+};
+
+export const bsPrice = (
+  type: 'put' | 'call',
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  sigma: number,
+  q: number = 0
+): number => {
+  if (T <= 0 || sigma <= 0) {
+    return Math.max(0, type === 'call' ? S - K : K - S);
+  }
+  const { d1, d2 } = d1d2(S, K, T, r, sigma, q);
+  if (type === 'call') {
+    return S * Math.exp(-q * T) * normCdf(d1) - K * Math.exp(-r * T) * normCdf(d2);
+  }
+  return K * Math.exp(-r * T) * normCdf(-d2) - S * Math.exp(-q * T) * normCdf(-d1);
+};
+
+export const bsGreeks = (
+  type: 'put' | 'call',
+  S: number,
+  K: number,
+  T: number,
+  r: number,
+  sigma: number,
+  q: number = 0
+): Greeks => {
+  const { d1, d2 } = d1d2(S, K, T, r, sigma, q);
+  const sqrtT = Math.sqrt(T);
+  const discQ = Math.exp(-q * T);
+  const discR = Math.exp(-r * T);
+
+  const gamma = (discQ * normPdf(d1)) / (S * sigma * sqrtT);
+  const vega = (S * discQ * normPdf(d1) * sqrtT) / 100;
+  const decay = -(S * discQ * normPdf(d1) * sigma) / (2 * sqrtT);
+
+  if (type === 'call') {
+    return {
+      delta: discQ * normCdf(d1),
+      gamma,
+      theta: (decay - r * K * discR * normCdf(d2) + q * S * discQ * normCdf(d1)) / 365,
+      vega,
+    };
+  }
+  return {
+    delta: -discQ * normCdf(-d1),
+    gamma,
+    theta: (decay + r * K * discR * normCdf(-d2) - q * S * discQ * normCdf(-d1)) / 365,
+    vega,
+  };
+};
+
+// Bisection on sigma. Price is monotonic in vol, so this always converges inside the bracket.
+// Returns undefined when the premium is below intrinsic value or above the no-arbitrage bound.
+export const impliedVolatility = (
+  type: 'put' | 'call',
+  premium: number,
+  S: number,
+  K: number,
+  T: number,
+  r: number = DEFAULT_RISK_FREE_RATE,
+  q: number = 0
+): number | undefined => {
+  if (!(premium > 0) || !(S > 0) || !(K > 0) || !(T > 0)) return undefined;
+
+  let low = 0.001;
+  let high = 5;
+  if (premium < bsPrice(type, S, K, T, r, low, q) || premium > bsPrice(type, S, K, T, r, high, q)) {
+    return undefined;
+  }
+
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    const diff = bsPrice(type, S, K, T, r, mid, q) - premium;
+    if (Math.abs(diff) < 1e-6) return mid;
+    if (diff > 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+// Risk-neutral lognormal probability that the underlying finishes above `level` at expiry: N(d2)
+export const probabilityAbove = (
+  S: number,
+  level: number,
+  T: number,
+  sigma: number,
+  r: number = DEFAULT_RISK_FREE_RATE
+): number => {
+  if (level <= 0) return 1;
+  if (T <= 0 || sigma <= 0) return S > level ? 1 : 0;
+  const d2 = (Math.log(S / level) + (r - 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
+  return normCdf(d2);
+};
+
+// Probability the underlying trades through `barrier` at any point before expiry
+// (first-passage probability for GBM with drift r - sigma^2/2).
+export const probabilityOfTouch = (
+  S: number,
+  barrier: number,
+  T: number,
+  sigma: number,
+  r: number = DEFAULT_RISK_FREE_RATE
+): number => {
+  if (barrier <= 0) return 0;
+  if (barrier === S) return 1;
+  if (T <= 0 || sigma <= 0) return 0;
+
+  const nu = r - 0.5 * sigma * sigma;
+  const volT = sigma * Math.sqrt(T);
+  const reflect = Math.pow(barrier / S, (2 * nu) / (sigma * sigma));
+  const x = Math.log(barrier / S);
+
+  const p = barrier < S
+    ? normCdf((x - nu * T) / volT) + reflect * normCdf((x + nu * T) / volT)
+    : normCdf((-x + nu * T) / volT) + reflect * normCdf((-x - nu * T) / volT);
+  return Math.max(0, Math.min(1, p));
+};
+
+// Price of the opposite leg at the same strike from put-call parity (no dividends):
+// C - P = S - K e^(-rT). Floored at zero for stale or crossed inputs.
+export const parityPrice = (
+  known: 'put' | 'call',
+  price: number,
+  S: number,
+  K: number,
+  T: number,
+  r: number = DEFAULT_RISK_FREE_RATE
+): number => {
+  const forwardDiff = S - K * Math.exp(-r * Math.max(0, T));
+  return Math.max(0, known === 'put' ? price + forwardDiff : price - forwardDiff);
+};
@@ -1,4 +1,101 @@
-import { OptionRow } from '../types.ts';
+import { ChainFilter, FillAssumption, GeminiResponseData, IvHistoryStats, OptionRow, PremiumBasis, PremiumQuote, Provenance, RealizedVolPoint, RowContext, SigmaEstimate, SigmaSource, SkewPoint, SkewSummary } from '../types.ts';
+import { easternToDate, formatLocalDate, sessionCloseMinutes, sessionHoursRemaining } from './marketCalendar.ts';
+import { now } from './clock.ts';
+import { bsGreeks, impliedVolatility, probabilityAbove, probabilityOfTouch, DEFAULT_RISK_FREE_RATE } from './blackScholes.ts';
+
+export const DEFAULT_FILL_ASSUMPTION: FillAssumption = { mode: 'bid', spreadPct: 0 };
+
+// Price we expect to get filled at. Sellers receive bid..mid, buyers (spread long legs) pay mid..ask.
+// Falls back through whatever fields the data source provided; undefined when the quote is empty.
+export const resolveFillPrice = (
+  quote: PremiumQuote,
+  fill: FillAssumption,
+  side: 'sell' | 'buy' = 'sell'
+): number | undefined => {
+  const { bid, ask, last } = quote;
+  const hasMarket = bid !== undefined && bid > 0 && ask !== undefined && ask >= bid;
+  const mid = quote.mid ?? (hasMarket ? (bid! + ask!) / 2 : undefined);
+  const touch = side === 'sell' ? bid : ask;
+
+  if (fill.mode === 'bid') return (touch && touch > 0 ? touch : undefined) ?? mid ?? last;
+  if (fill.mode === 'mid' || !hasMarket) return mid ?? touch ?? last;
+
+  // mid_minus: give up X% of the spread from mid, never worse than the touch
+  const concession = (ask! - bid!) * (fill.spreadPct / 100);
+  return side === 'sell' ? Math.max(bid!, mid! - concession) : Math.min(ask!, mid! + concession);
+};
+
+export const PREMIUM_BASIS_LABELS: Record<PremiumBasis, string> = {
+  quote: '买卖盘报价',
+  last_trade: '最新成交',
+  day_close: '当日收盘',
+  prev_close: '前收盘价',
+  ai_search: 'AI 搜索',
+  manual: '手动录入',
+};
+
+// Premiums that only approximate what a sell order would fill at today
+export const isIndicativePremium = (provenance?: Provenance): boolean =>
+  provenance !== undefined && (provenance.basis === 'prev_close' || provenance.basis === 'ai_search' || provenance.basis === 'day_close');
+
+export const getFillLabel = (fill: FillAssumption): string => {
+  if (fill.mode === 'bid') return 'Bid';
+  if (fill.mode === 'mid') return 'Mid';
+  return `Mid -${fill.spreadPct}%`;
+};
+
+// Floor for the time left, so an option at (or past) its close still annualizes to a finite number
+const MIN_DTE_DAYS = 1 / 24;
+
+// Fractional calendar days from `at` until the expiration's close: 4:00 PM ET, or 1:00 PM ET on
+// early-close days. Independent of the browser's timezone.
+export const getDaysToExpiration = (expirationDateStr: string, at: Date = now()): number => {
+  const close = easternToDate(expirationDateStr, sessionCloseMinutes(expirationDateStr));
+  return Math.max(MIN_DTE_DAYS, (close.getTime() - at.getTime()) / (1000 * 3600 * 24));
+};
+
+// At most `max` expirations spread evenly over the DTE range of `dates`, nearest and farthest kept.
+// Daily-listed tickers (QQQ, SPY) have far more expirations than a multi-expiration scan can afford,
+// and the nearest ones alone would only cover the first week or two of the range.
+export const sampleExpirations = (dates: string[], max: number): string[] => {
+  const sorted = [...dates].sort();
+  if (sorted.length <= max) return sorted;
+  if (max <= 1) return sorted.slice(0, max);
+  const dtes = sorted.map(d => getDaysToExpiration(d));
+  const first = dtes[0];
+  const span = dtes[dtes.length - 1] - first;
+  const picked = new Set<number>();
+  for (let i = 0; i < max; i++) {
+    const target = first + span * i / (max - 1);
+    let best = -1;
+    dtes.forEach((dte, j) => {
+      if (!picked.has(j) && (best < 0 || Math.abs(dte - target) < Math.abs(dtes[best] - target))) best = j;
+    });
+    picked.add(best);
+  }
+  return Array.from(picked).sort((a, b) => a - b).map(j => sorted[j]);
+};
+
+// 252 sessions of 6.5 hours
+export const TRADING_HOURS_PER_YEAR = 252 * 6.5;
+
+// Same-day floor, so the last minutes before the close don't annualize to infinity
+const MIN_SESSION_HOURS = 0.25;
+
+// Regular-session hours left for a same-day expiration; undefined when it expires on a later day
+export const getHoursToClose = (expirationDateStr: string, at: Date = now()): number | undefined => {
+  const hours = sessionHoursRemaining(expirationDateStr, at);
+  return hours === undefined ? undefined : Math.max(MIN_SESSION_HOURS, hours);
+};
+
+// Same-day expirations annualize on trading hours (the premium can only be re-earned while the
+// market is open); later expirations on calendar days.
+export const annualizeRoi = (roi: number, daysToExpiration: number, hoursToClose?: number): number =>
+  hoursToClose !== undefined ? roi * (TRADING_HOURS_PER_YEAR / hoursToClose) : roi * (365 / daysToExpiration);
+
+// "5.3d", or "4.5h" inside the last day
+export const formatDte = (days: number): string =>
+  days < 1 ? `${(days * 24).toFixed(1)}h` : `${days.toFixed(1)}d`;
 
 export const calculateOptionMetrics = (
   strike: number,
@@ -6,15 +103,18 @@ export const calculateOptionMetrics = (
   expirationDateStr: string,
   type: 'put' | 'call' = 'put',
   delta?: number,
-  costBasis?: number
+  costBasis?: number,
+  multiplier: number = 100,
+  quote?: PremiumQuote,
+  fill?: FillAssumption
 ): OptionRow => {
-  const today = new Date();
-  const expirationDate = new Date(expirationDateStr);
-  
-  // Calculate difference in time
-  const timeDiff = expirationDate.getTime() - today.getTime();
-  // Calculate difference in days. Ensure at least 1 day to avoid division by zero.
-  const daysToExpiration = Math.max(1, Math.ceil(timeDiff / (1000 * 3600 * 24)));
+  // With a full quote, the fill assumption decides the premium; otherwise use what we were given
+  if (quote && fill) {
+    premium = resolveFillPrice(quote, fill) ?? premium;
+  }
+
+  const daysToExpiration = getDaysToExpiration(expirationDateStr);
+  const hoursToClose = getHoursToClose(expirationDateStr);
 
   // ROI & Capital Calculations
   let capitalRequired = 0;
@@ -26,20 +126,20 @@ export const calculateOptionMetrics = (
       // Capital is the cost of shares. Use costBasis if provided, else Strike or approx price
       // ROI = Premium / Net Capital (Cost Basis)
       const basis = costBasis && costBasis > 0 ? costBasis : strike; 
-      capitalRequired = basis * 100;
+      capitalRequired = basis * multiplier;
       roi = (premium / basis) * 100;
       breakeven = basis - premium;
   } else {
       // Cash Secured Put
-      // Capital Required = Strike * 100
+      // Capital Required = Strike * Multiplier (100 shares for standard contracts)
       // ROI = Premium / Strike
-      capitalRequired = strike * 100;
+      capitalRequired = strike * multiplier;
       roi = (premium / strike) * 100;
       breakeven = strike - premium;
   }
 
-  // Annualized Return = ROI * (365 / DTE)
-  const annualizedReturn = roi * (365 / daysToExpiration);
+  // Annualized Return = ROI * (365 / DTE), or per trading hour for same-day expirations
+  const annualizedReturn = annualizeRoi(roi, daysToExpiration, hoursToClose);
   
   // Win Rate Estimate (1 - |Delta|)
   let winRate: number | undefined = undefined;
@@ -52,6 +152,8 @@ export const calculateOptionMetrics = (
     strike,
     premium,
     daysToExpiration,
+    hoursToClose,
+    returnPerHour: hoursToClose !== undefined ? roi / hoursToClose : undefined,
     expirationDate: expirationDateStr,
     annualizedReturn,
     breakeven,
@@ -59,30 +161,241 @@ export const calculateOptionMetrics = (
     roi,
     type,
     delta,
-    winRate
+    winRate,
+    bid: quote?.bid,
+    ask: quote?.ask,
+    last: quote?.last,
+    mid: quote?.mid
+  };
+};
+
+// Recompute a row's premium & returns under a new fill assumption, keeping vendor fields (iv, etc.)
+export const repriceRow = (row: OptionRow, fill: FillAssumption, costBasis?: number, multiplier?: number): OptionRow => {
+  const hasQuote = [row.bid, row.ask, row.last, row.mid].some(v => v !== undefined);
+  if (!hasQuote) return row;
+  const quote = { bid: row.bid, ask: row.ask, last: row.last, mid: row.mid };
+  return {
+    ...row,
+    ...calculateOptionMetrics(row.strike, row.premium, row.expirationDate, row.type, row.delta, costBasis, multiplier, quote, fill)
   };
 };
 
-export const getTargetStrikes = (currentPrice: number): number[] => {
-  const base = Math.floor(currentPrice / 5) * 5;
-  return [base, base - 5, base - 10];
+// Distance OTM as % of price. Negative when ITM. Put: (Price - Strike), Call: (Strike - Price)
+export const getOtmPercent = (strike: number, currentPrice: number, type: 'put' | 'call' = 'put'): number => {
+  if (!currentPrice) return 0;
+  return type === 'call'
+    ? ((strike - currentPrice) / currentPrice) * 100
+    : ((currentPrice - strike) / currentPrice) * 100;
 };
 
-// NEW: Dynamic Volatility Target Calculation
-// Uses Square Root of Time Rule with a fixed baseline Volatility (IV) for QQQ.
-export const calculateDynamicTargets = (currentPrice: number, expirationDateStr: string) => {
-  const today = new Date();
-  const exp = new Date(expirationDateStr);
-  const timeDiff = exp.getTime() - today.getTime();
-  const daysToExpiration = Math.max(1, Math.ceil(timeDiff / (1000 * 3600 * 24)));
-  
-  // Baseline IV for QQQ (approx 18% average)
-  const BASELINE_IV = 0.18;
+export const DEFAULT_CHAIN_FILTER: ChainFilter = {
+  maxOtmPct: 15,
+  showItm: false,
+  minPremium: 0.05,
+};
+
+export const applyChainFilter = (rows: OptionRow[], filter: ChainFilter, currentPrice: number): OptionRow[] => {
+  return rows.filter(row => {
+    const otm = getOtmPercent(row.strike, currentPrice, row.type);
+    if (otm < 0 && !filter.showItm) return false;
+    if (Math.abs(otm) > filter.maxOtmPct) return false;
+    return row.premium >= filter.minPremium;
+  });
+};
+
+// Attach IV & Greeks to a row. Vendor values win when present (IV + delta at minimum);
+// otherwise IV is back-solved from the mid (or premium) and Greeks come from Black-Scholes.
+export const attachGreeks = (
+  row: OptionRow,
+  underlyingPrice: number,
+  vendor: { iv?: number; delta?: number; gamma?: number; theta?: number; vega?: number } = {},
+  rate: number = DEFAULT_RISK_FREE_RATE
+): OptionRow => {
+  const type = row.type || 'put';
+  const T = row.daysToExpiration / 365;
+  const hasVendor = vendor.iv !== undefined && vendor.delta !== undefined;
+
+  const iv = vendor.iv ?? impliedVolatility(type, row.mid ?? row.premium, underlyingPrice, row.strike, T, rate);
+  if (iv === undefined || !underlyingPrice) return row;
+
+  const local = bsGreeks(type, underlyingPrice, row.strike, T, rate, iv);
+  const delta = hasVendor ? vendor.delta! : local.delta;
+
+  return attachProbabilities({
+    ...row,
+    iv,
+    delta,
+    gamma: vendor.gamma ?? local.gamma,
+    theta: vendor.theta ?? local.theta,
+    vega: vendor.vega ?? local.vega,
+    greeksSource: hasVendor ? 'vendor' : 'local',
+    winRate: (1 - Math.abs(delta)) * 100
+  }, underlyingPrice, rate);
+};
+
+// Probability of profit at breakeven & probability of touching the strike. Needs the row's IV.
+// CSP and CC both profit while the underlying stays above breakeven at expiry.
+export const attachProbabilities = (
+  row: OptionRow,
+  underlyingPrice: number,
+  rate: number = DEFAULT_RISK_FREE_RATE
+): OptionRow => {
+  if (row.iv === undefined || !underlyingPrice) return row;
+  const T = row.daysToExpiration / 365;
+  return {
+    ...row,
+    pop: probabilityAbove(underlyingPrice, row.breakeven, T, row.iv, rate) * 100,
+    touchProb: probabilityOfTouch(underlyingPrice, row.strike, T, row.iv, rate) * 100
+  };
+};
+
+// PCS profits above (short strike - net credit). Uses the short leg's IV.
+export const calculateSpreadPop = (
+  shortLeg: OptionRow,
+  netCredit: number,
+  underlyingPrice: number,
+  rate: number = DEFAULT_RISK_FREE_RATE
+): number | undefined => {
+  if (shortLeg.iv === undefined || !underlyingPrice) return undefined;
+  const T = shortLeg.daysToExpiration / 365;
+  return probabilityAbove(underlyingPrice, shortLeg.strike - netCredit, T, shortLeg.iv, rate) * 100;
+};
+
+// Raw provider options -> fully derived rows (fill-priced returns, Greeks, probabilities)
+export const buildOptionRows = (options: NonNullable<GeminiResponseData['options']>, ctx: RowContext): OptionRow[] => {
+  return options.map(opt => attachGreeks(
+    { ...calculateOptionMetrics(opt.strike, opt.premium, ctx.expiration, ctx.contractType, opt.delta, ctx.costBasis, ctx.multiplier, opt, ctx.fill), provenance: opt.provenance },
+    ctx.underlyingPrice,
+    opt,
+    ctx.rate
+  ));
+};
+
+// Three nearest listed strikes at or below price, snapped to the ticker's strike increment
+export const getTargetStrikes = (currentPrice: number, increment: number = 5): number[] => {
+  const round = (val: number) => Math.round(val * 100) / 100;
+  const base = Math.floor(currentPrice / increment) * increment;
+  return [round(base), round(base - increment), round(base - 2 * increment)];
+};
+
+// Baseline IV (QQQ averages approx 18%). Last resort when no market-derived sigma is available.
+export const BASELINE_IV = 0.18;
+
+export const DEFAULT_SIGMA_PREFERENCE: SigmaSource[] = ['atm_iv', 'vxn', 'realized'];
+
+export const SIGMA_SOURCE_LABELS: Record<SigmaSource, string> = {
+  atm_iv: 'ATM IV',
+  vxn: 'VXN',
+  realized: '历史波动率 (HV)',
+  baseline: '固定基准 18%',
+};
+
+// Try each sigma source in order of preference; loaders are only called until one yields a
+// plausible annualized vol (1%–300%). Falls back to BASELINE_IV.
+export const resolveSigma = async (
+  loaders: Partial<Record<SigmaSource, (() => Promise<number | undefined>) | undefined>>,
+  preference: SigmaSource[] = DEFAULT_SIGMA_PREFERENCE
+): Promise<SigmaEstimate> => {
+  for (const source of preference) {
+    const load = loaders[source];
+    if (!load) continue;
+    try {
+      const sigma = await load();
+      if (sigma !== undefined && sigma > 0.01 && sigma < 3) return { sigma, source };
+    } catch (e) {
+      console.warn(`Sigma source ${source} failed`, e);
+    }
+  }
+  return { sigma: BASELINE_IV, source: 'baseline' };
+};
+
+// A strike within this fraction of spot (and at least one strike increment) counts as at the money
+export const ATM_STRIKE_TOLERANCE = 0.01;
+
+export const atmStrikeDistance = (price: number, strikeIncrement: number): number =>
+  Math.max(strikeIncrement, price * ATM_STRIKE_TOLERANCE);
+
+// IV of the strike closest to the underlying price. With `maxDistance`, only strikes within that
+// many dollars of spot count (undefined otherwise), and strikes on both sides of spot are
+// interpolated: free-tier and AI chains only carry OTM strikes around the target, whose IV is not ATM.
+export const getAtmIv = (rows: OptionRow[], currentPrice: number, maxDistance?: number): number | undefined => {
+  const withIv = rows.filter(r => r.iv !== undefined && r.iv > 0);
+  if (withIv.length === 0 || !currentPrice) return undefined;
+  const atm = withIv.reduce((prev, curr) => 
+    Math.abs(curr.strike - currentPrice) < Math.abs(prev.strike - currentPrice) ? curr : prev
+  );
+  if (maxDistance === undefined) return atm.iv;
+
+  const near = withIv.filter(r => Math.abs(r.strike - currentPrice) <= maxDistance);
+  const below = near.filter(r => r.strike < currentPrice).sort((a, b) => b.strike - a.strike)[0];
+  const above = near.filter(r => r.strike > currentPrice).sort((a, b) => a.strike - b.strike)[0];
+  if (below && above && atm.strike !== currentPrice) {
+    const w = (currentPrice - below.strike) / (above.strike - below.strike);
+    return below.iv! + w * (above.iv! - below.iv!);
+  }
+  return Math.abs(atm.strike - currentPrice) <= maxDistance ? atm.iv : undefined;
+};
+
+// Nearest listed delta must be within this of 25Δ to stand in for it
+const SKEW_DELTA_TOLERANCE = 0.1;
+
+export const summarizeSkew = (skew: SkewPoint[], currentPrice: number): SkewSummary => {
+  const nearest25 = (type: 'put' | 'call') => {
+    const target = type === 'put' ? -0.25 : 0.25;
+    const candidates = skew.filter(p => p.type === type && p.delta !== undefined && Math.abs(p.delta - target) <= SKEW_DELTA_TOLERANCE);
+    if (candidates.length === 0) return undefined;
+    return candidates.reduce((a, b) => Math.abs(b.delta! - target) < Math.abs(a.delta! - target) ? b : a).iv;
+  };
+  const atm = skew.length > 0 && currentPrice
+    ? skew.reduce((a, b) => Math.abs(b.strike - currentPrice) < Math.abs(a.strike - currentPrice) ? b : a).iv
+    : undefined;
+  const put25Iv = nearest25('put');
+  const call25Iv = nearest25('call');
+  return {
+    atmIv: atm,
+    put25Iv,
+    call25Iv,
+    putSkew: put25Iv !== undefined && atm !== undefined ? (put25Iv - atm) * 100 : undefined,
+    riskReversal: put25Iv !== undefined && call25Iv !== undefined ? (put25Iv - call25Iv) * 100 : undefined,
+  };
+};
+
+// Annualized close-to-close volatility from a series of daily closes (oldest first)
+export const calculateRealizedVolatility = (closes: number[]): number | undefined => {
+  if (closes.length < 3) return undefined;
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0 && closes[i] > 0) returns.push(Math.log(closes[i] / closes[i - 1]));
+  }
+  if (returns.length < 2) return undefined;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * 252);
+};
+
+// Trailing windows (trading days) shown next to the chain's IV
+export const REALIZED_VOL_WINDOWS = [10, 20, 60];
+
+// Calendar days of daily bars that cover the longest window, with room for holidays
+export const REALIZED_VOL_LOOKBACK_DAYS = 100;
+
+// Realized vol per window from daily closes (oldest first); windows without enough bars are left out
+export const calculateRealizedVolWindows = (closes: number[], windows: number[] = REALIZED_VOL_WINDOWS): RealizedVolPoint[] =>
+  windows
+    .filter(days => closes.length > days)
+    .map(days => ({ days, sigma: calculateRealizedVolatility(closes.slice(-(days + 1))) }))
+    .filter((p): p is RealizedVolPoint => p.sigma !== undefined);
+
+// Dynamic Volatility Target Calculation
+// Uses Square Root of Time Rule with the resolved sigma (see resolveSigma).
+export const calculateDynamicTargets = (currentPrice: number, expirationDateStr: string, sigma: number = BASELINE_IV) => {
+  const daysToExpiration = getDaysToExpiration(expirationDateStr);
+  const hoursToClose = getHoursToClose(expirationDateStr);
   
   // Calculate Expected Move (1 Standard Deviation)
-  // Formula: Price * IV * sqrt(Days / 365)
-  const years = daysToExpiration / 365;
-  const stdDev = currentPrice * BASELINE_IV * Math.sqrt(years);
+  // Formula: Price * IV * sqrt(Days / 365); same-day: the session hours left out of a trading year
+  const years = hoursToClose !== undefined ? hoursToClose / TRADING_HOURS_PER_YEAR : daysToExpiration / 365;
+  const stdDev = currentPrice * sigma * Math.sqrt(years);
 
   // Define Targets
   // Aggressive: ~0.5 StdDev OTM (High Yield, higher risk)
@@ -93,7 +406,9 @@ export const calculateDynamicTargets = (currentPrice: number, expirationDateStr:
       moderate: currentPrice - (1.0 * stdDev),
       safe: currentPrice - (2.0 * stdDev),
       stdDev, // return for debug/display if needed
-      daysToExpiration
+      sigma,
+      daysToExpiration,
+      hoursToClose
   };
 };
 
@@ -103,6 +418,25 @@ export const calculateIVRank = (current: number, low: number, high: number): num
     return Math.max(0, Math.min(100, rank));
 };
 
+// IV rank & percentile of `current` against up to a year of daily observations (decimals).
+// null until there are enough days for the range to mean anything.
+export const IV_HISTORY_LOOKBACK = 252;
+export const MIN_IV_HISTORY_DAYS = 20;
+
+export const calculateIvStats = (history: number[], current: number): IvHistoryStats | null => {
+    const window = history.slice(-IV_HISTORY_LOOKBACK);
+    if (window.length < MIN_IV_HISTORY_DAYS) return null;
+    const low = Math.min(...window, current);
+    const high = Math.max(...window, current);
+    return {
+        rank: calculateIVRank(current, low, high),
+        percentile: (window.filter(iv => iv < current).length / window.length) * 100,
+        low,
+        high,
+        days: window.length,
+    };
+};
+
 export const getIVStatus = (rank: number): { msg: string, color: 'emerald' | 'yellow' | 'red' } => {
     if (rank >= 50) return { msg: '高波动 (Sell)', color: 'emerald' };
     if (rank <= 20) return { msg: '低波动 (Buy)', color: 'red' };
@@ -127,8 +461,8 @@ export const formatPercentage = (value: number) => {
 };
 
 export const getNextFriday = (): string => {
-  const d = new Date();
+  const d = now();
   d.setDate(d.getDate() + (5 + 7 - d.getDay()) % 7);
-  // Format YYYY-MM-DD
-  return d.toISOString().split('T')[0];
-};
\ No newline at end of file
+  // Format YYYY-MM-DD in local time (toISOString would shift evening dates to the next UTC day)
+  return formatLocalDate(d);
+};
@@ -0,0 +1,13 @@
+// Injectable clock. Everything that measures "now" (days to expiration,
+// expiration calendars, lookback windows) reads it from here so a replayed
+// session can be pinned to the moment it was recorded.
+
+let override: Date | null = null;
+
+export const now = (): Date => (override ? new Date(override.getTime()) : new Date());
+
+export const setClockOverride = (date: Date | null) => {
+  override = date ? new Date(date.getTime()) : null;
+};
+
+export const isClockOverridden = (): boolean => override !== null;
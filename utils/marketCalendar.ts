@@ -0,0 +1,199 @@
+import { TickerInfo } from '../types.ts';
+import { now } from './clock.ts';
+
+// NYSE / Nasdaq full-day closures. Bundled so the app can build an expiration calendar offline.
+// Update yearly from https://www.nyse.com/markets/hours-calendars
+export const MARKET_HOLIDAYS: string[] = [
+  // 2025
+  '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26',
+  '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+  // 2026
+  '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19',
+  '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+  // 2027
+  '2027-01-01', '2027-01-18', '2027-02-15', '2027-03-26', '2027-05-31', '2027-06-18',
+  '2027-07-05', '2027-09-06', '2027-11-25', '2027-12-24',
+];
+
+const HOLIDAY_SET = new Set(MARKET_HOLIDAYS);
+
+// 1:00 PM ET closes (day after Thanksgiving, Christmas Eve, July 3rd when it is a weekday)
+export const MARKET_EARLY_CLOSES: string[] = [
+  '2025-07-03', '2025-11-28', '2025-12-24',
+  '2026-11-27', '2026-12-24',
+  '2027-11-26',
+];
+
+const EARLY_CLOSE_SET = new Set(MARKET_EARLY_CLOSES);
+
+// YYYY-MM-DD in the local timezone (toISOString would shift the date across UTC midnight)
+export const formatLocalDate = (d: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Local midnight for a YYYY-MM-DD string (new Date(str) would parse it as UTC midnight)
+export const parseLocalDate = (dateStr: string): Date => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const isMarketHoliday = (dateStr: string): boolean => HOLIDAY_SET.has(dateStr);
+
+export const isTradingDay = (d: Date): boolean => {
+  const day = d.getDay();
+  return day !== 0 && day !== 6 && !isMarketHoliday(formatLocalDate(d));
+};
+
+const previousTradingDay = (d: Date): Date => {
+  const prev = new Date(d);
+  do {
+    prev.setDate(prev.getDate() - 1);
+  } while (!isTradingDay(prev));
+  return prev;
+};
+
+const isLastTradingDayOfMonth = (d: Date): boolean => {
+  const next = new Date(d);
+  do {
+    next.setDate(next.getDate() + 1);
+  } while (!isTradingDay(next));
+  return next.getMonth() !== d.getMonth();
+};
+
+// Expirations implied by the ticker's listing schedule, from `from` (inclusive) for `maxDays`.
+// Friday expirations that fall on a holiday move to the preceding trading day; other weekdays are skipped.
+export const generateExpirationCalendar = (ticker: TickerInfo, from: Date = now(), maxDays: number = 120): string[] => {
+  const weekdays = ticker.expirationWeekdays || [5];
+  const dates = new Set<string>();
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+  for (let i = 0; i <= maxDays; i++) {
+    const d = new Date(start);
+    d.setDate(start.getDate() + i);
+
+    if (weekdays.includes(d.getDay())) {
+      if (isTradingDay(d)) {
+        dates.add(formatLocalDate(d));
+      } else if (d.getDay() === 5) {
+        const shifted = previousTradingDay(d);
+        if (shifted >= start) dates.add(formatLocalDate(shifted));
+      }
+    }
+
+    if (ticker.monthEndExpirations && isTradingDay(d) && isLastTradingDayOfMonth(d)) {
+      dates.add(formatLocalDate(d));
+    }
+  }
+
+  return Array.from(dates).sort();
+};
+
+// --- Regular trading hours (America/New_York) ---
+
+const MARKET_TZ = 'America/New_York';
+const SESSION_OPEN_MINUTES = 9 * 60 + 30;
+const SESSION_CLOSE_MINUTES = 16 * 60;
+const EARLY_CLOSE_MINUTES = 13 * 60;
+
+const ET_FORMAT = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_TZ,
+  year: 'numeric', month: '2-digit', day: '2-digit',
+  hour: '2-digit', minute: '2-digit', second: '2-digit',
+  hourCycle: 'h23',
+});
+
+// Wall-clock time in New York, independent of the browser's timezone
+export interface EasternTime {
+  date: string;    // YYYY-MM-DD
+  weekday: number; // 0 = Sun ... 6 = Sat
+  minutes: number; // Since midnight, fractional
+}
+
+export const toEastern = (d: Date): EasternTime => {
+  const parts: Record<string, string> = {};
+  ET_FORMAT.formatToParts(d).forEach(p => { parts[p.type] = p.value; });
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute) + Number(parts.second) / 60,
+  };
+};
+
+// The instant at which New York's wall clock shows `minutes` past midnight on `date` (DST-aware)
+export const easternToDate = (date: string, minutes: number): Date => {
+  const [y, m, d] = date.split('-').map(Number);
+  const guess = Date.UTC(y, m - 1, d, 0, minutes);
+  const wall = toEastern(new Date(guess));
+  const [wy, wm, wd] = wall.date.split('-').map(Number);
+  const offset = Date.UTC(wy, wm - 1, wd, 0, wall.minutes) - guess;
+  return new Date(guess - offset);
+};
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of the local timezone
+export const shiftDate = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const isSessionDay = (date: string): boolean => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !isMarketHoliday(date);
+};
+
+export const sessionCloseMinutes = (date: string): number =>
+  EARLY_CLOSE_SET.has(date) ? EARLY_CLOSE_MINUTES : SESSION_CLOSE_MINUTES;
+
+export interface MarketSession {
+  open: boolean;
+  nextOpen: Date;  // Start of the next regular session (the current one's start while open)
+  lastClose: Date; // End of the most recent completed session
+}
+
+export const getMarketSession = (at: Date = now()): MarketSession => {
+  const et = toEastern(at);
+  const today = isSessionDay(et.date);
+  const open = today && et.minutes >= SESSION_OPEN_MINUTES && et.minutes < sessionCloseMinutes(et.date);
+
+  let next = today && et.minutes < SESSION_OPEN_MINUTES ? et.date : shiftDate(et.date, 1);
+  while (!isSessionDay(next)) next = shiftDate(next, 1);
+
+  let last = today && et.minutes >= sessionCloseMinutes(et.date) ? et.date : shiftDate(et.date, -1);
+  while (!isSessionDay(last)) last = shiftDate(last, -1);
+
+  return {
+    open,
+    nextOpen: open ? easternToDate(et.date, SESSION_OPEN_MINUTES) : easternToDate(next, SESSION_OPEN_MINUTES),
+    lastClose: easternToDate(last, sessionCloseMinutes(last)),
+  };
+};
+
+// The New York session date a same-day trade targets: today while the session hasn't closed,
+// otherwise the next session
+export const currentSessionDate = (at: Date = now()): string => {
+  const et = toEastern(at);
+  if (isSessionDay(et.date) && et.minutes < sessionCloseMinutes(et.date)) return et.date;
+  let next = shiftDate(et.date, 1);
+  while (!isSessionDay(next)) next = shiftDate(next, 1);
+  return next;
+};
+
+// Regular-session hours left before the close when `date` is today in New York (the whole
+// session before the open). undefined for any other date.
+export const sessionHoursRemaining = (date: string, at: Date = now()): number | undefined => {
+  const et = toEastern(at);
+  if (et.date !== date || !isSessionDay(date)) return undefined;
+  return Math.max(0, sessionCloseMinutes(date) - Math.max(et.minutes, SESSION_OPEN_MINUTES)) / 60;
+};
+
+// e.g. "10:32 ET", or "Mon 09:30 ET" with the weekday
+export const formatEasternTime = (d: Date, withWeekday: boolean = false): string =>
+  `${d.toLocaleString('en-US', {
+    timeZone: MARKET_TZ,
+    weekday: withWeekday ? 'short' : undefined,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  })} ET`;
@@ -0,0 +1,54 @@
+import { getMarketSession } from './marketCalendar.ts';
+import { now } from './clock.ts';
+
+// Auto-refresh timing. Polls only during the regular session; outside it the scheduler
+// sleeps until the next open (re-checking at least hourly, so a laptop waking from sleep
+// doesn't wait on a timer armed days ago).
+
+// Minutes
+export const REFRESH_INTERVAL_OPTIONS = [5, 10, 15, 30];
+export const DEFAULT_REFRESH_INTERVAL = 5;
+
+// 0DTE mode: premiums decay by the minute, so poll every minute regardless of the setting
+export const INTRADAY_REFRESH_INTERVAL = 1;
+
+// Delayed / AI-sourced data moves slower than a live feed; poll it less often
+const DELAYED_BACKOFF = 3;
+
+const CLOSED_RECHECK_MS = 3600 * 1000;
+
+// Let the opening prints settle before the first refresh of the day
+const OPEN_GRACE_MS = 60 * 1000;
+
+// During the session, data older than this is flagged
+export const STALE_AFTER_MS = 20 * 60 * 1000;
+
+export interface RefreshPlan {
+  delayMs: number;
+  refresh: boolean; // false: only re-plan when the timer fires (market closed)
+  reason: 'session' | 'delayed' | 'closed';
+}
+
+export const planNextRefresh = (intervalMinutes: number, realtime: boolean, at: Date = now()): RefreshPlan => {
+  const session = getMarketSession(at);
+  if (!session.open) {
+    const untilOpen = session.nextOpen.getTime() - at.getTime() + OPEN_GRACE_MS;
+    return untilOpen <= CLOSED_RECHECK_MS
+      ? { delayMs: untilOpen, refresh: true, reason: 'closed' }
+      : { delayMs: CLOSED_RECHECK_MS, refresh: false, reason: 'closed' };
+  }
+  const interval = intervalMinutes * 60 * 1000;
+  return realtime
+    ? { delayMs: interval, refresh: true, reason: 'session' }
+    : { delayMs: interval * DELAYED_BACKOFF, refresh: true, reason: 'delayed' };
+};
+
+// 'settled': taken near or after the last close, so it won't change until the next open
+export type Staleness = 'fresh' | 'stale' | 'settled';
+
+export const getStaleness = (lastUpdated: string, at: Date = now()): Staleness => {
+  const updated = new Date(lastUpdated).getTime();
+  const session = getMarketSession(at);
+  if (session.open) return at.getTime() - updated <= STALE_AFTER_MS ? 'fresh' : 'stale';
+  return updated >= session.lastClose.getTime() - STALE_AFTER_MS ? 'settled' : 'stale';
+};
@@ -0,0 +1,40 @@
+import { TickerInfo } from '../types.ts';
+
+// Presets for the underlyings we trade most. Strike increments are the typical
+// near-the-money spacing for monthly/weekly expirations. Single names list Friday weeklies only.
+export const TICKER_PRESETS: TickerInfo[] = [
+  { symbol: 'QQQ', name: 'Invesco QQQ Trust ETF', exchange: 'NASDAQ', strikeIncrement: 5, multiplier: 100, expirationWeekdays: [1, 2, 3, 4, 5], monthEndExpirations: true },
+  { symbol: 'SPY', name: 'SPDR S&P 500 ETF', exchange: 'NYSEARCA', strikeIncrement: 5, multiplier: 100, expirationWeekdays: [1, 2, 3, 4, 5], monthEndExpirations: true },
+  { symbol: 'IWM', name: 'iShares Russell 2000 ETF', exchange: 'NYSEARCA', strikeIncrement: 1, multiplier: 100, expirationWeekdays: [1, 3, 5], monthEndExpirations: true },
+  { symbol: 'TQQQ', name: 'ProShares UltraPro QQQ', exchange: 'NASDAQ', strikeIncrement: 1, multiplier: 100 },
+  { symbol: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', strikeIncrement: 5, multiplier: 100 },
+  { symbol: 'MSFT', name: 'Microsoft Corp.', exchange: 'NASDAQ', strikeIncrement: 5, multiplier: 100 },
+  { symbol: 'NVDA', name: 'NVIDIA Corp.', exchange: 'NASDAQ', strikeIncrement: 5, multiplier: 100 },
+  { symbol: 'TSLA', name: 'Tesla Inc.', exchange: 'NASDAQ', strikeIncrement: 5, multiplier: 100 },
+];
+
+export const DEFAULT_TICKER = TICKER_PRESETS[0];
+
+export const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+// Look up a preset, or build generic metadata for an arbitrary single name
+export const getTickerInfo = (symbol: string): TickerInfo => {
+  const clean = normalizeSymbol(symbol) || DEFAULT_TICKER.symbol;
+  const preset = TICKER_PRESETS.find(t => t.symbol === clean);
+  if (preset) return preset;
+  return { symbol: clean, name: clean, exchange: 'US', strikeIncrement: 5, multiplier: 100 };
+};
+
+// Standard listing rules scale strike spacing with price; used once a quote is known
+// for tickers without a preset.
+export const inferStrikeIncrement = (price: number): number => {
+  if (price < 25) return 0.5;
+  if (price < 200) return 1;
+  if (price < 500) return 5;
+  return 10;
+};
+
+export const resolveStrikeIncrement = (ticker: TickerInfo, price: number): number => {
+  const isPreset = TICKER_PRESETS.some(t => t.symbol === ticker.symbol);
+  return isPreset ? ticker.strikeIncrement : inferStrikeIncrement(price);
+};